@@ -1,8 +1,40 @@
-import React, { useState, useCallback } from 'react';
-import { OptimizedImage } from './types.ts';
-import { compressImage } from './services/compressionService.ts';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { OptimizedImage, OutputFormat, CompressionSettings, EmbedSettings, ExifPolicy, PrivacySettings, AiSettings, ApiKeySettings, BulkAiSettings, BatchProgress, ProjectContext, LintSettings, Session, QualitySettings, WatermarkSettings, ProfileSettings, CmsExportSettings } from './types.ts';
+import { optimizeSvg, rasterizeSvg } from './services/svgService.ts';
+import { decodeHeic, isHeicFile } from './services/heicService.ts';
+import { detectSupportedFormats, DEFAULT_MATTE_COLOR } from './services/compressionService.ts';
+import { analyzeImage, applyCompressionResult, buildCompressionJob, createOptimizedImage, DEFAULT_RASTER_WIDTH } from './services/pipelineService.ts';
+import { createCompressionQueue, isAbortError } from './services/compressionQueue.ts';
 import { ImageEditor } from './components/ImageEditor.tsx';
 import { AdUnit } from './components/AdUnit.tsx';
+import { buildBatchZip, dedupeFileNames, getBaseFileName, isExportable } from './services/exportService.ts';
+import { buildStructuredDataEntries, StructuredDataOptions } from './services/structuredDataService.ts';
+import { downloadBlob } from './services/downloadService.ts';
+import { loadSettings, saveSettings } from './services/settingsService.ts';
+import { DEFAULT_PROFILES, DEFAULT_PROFILE_SETTINGS, describeProfileSize, getProfile, profileToImageSettings } from './services/profileService.ts';
+import { loadApiKeys, saveApiKeys } from './services/apiKeyService.ts';
+import { SettingsPanel } from './components/SettingsPanel.tsx';
+import { BulkGeneratePanel } from './components/BulkGeneratePanel.tsx';
+import { ProjectContextPanel } from './components/ProjectContextPanel.tsx';
+import { WatermarkPanel } from './components/WatermarkPanel.tsx';
+import { CmsExportMenu } from './components/CmsExportMenu.tsx';
+import { StructuredDataPanel } from './components/StructuredDataPanel.tsx';
+import { generateImageMetadata, isMissingApiKey, listProviders } from './services/metadataService.ts';
+import { mergeGeneratedMetadata } from './services/metadataUtils.ts';
+import { BatchControl, runBatch } from './services/batchService.ts';
+import { toAiError } from './services/aiErrors.ts';
+import { DEFAULT_LINT_SETTINGS, lintQueue } from './services/seoLintService.ts';
+import { SeoScoreBadge } from './components/SeoScoreBadge.tsx';
+import { SessionBar } from './components/SessionBar.tsx';
+import {
+  createSession,
+  deleteSession,
+  isPersistenceAvailable,
+  listSessions,
+  loadSessionImages,
+  saveSession,
+  syncSessionImages
+} from './services/persistenceService.ts';
 
 // --- CONFIGURATION START ---
 const AD_CLIENT_ID = 'ca-pub-6989783976135951'; 
@@ -12,84 +44,439 @@ const TOP_BANNER_SLOT_ID = '9069653922';
 const MIDDLE_AD_SLOT_ID = '2332141523'; // New autorelaxed unit
 // --- CONFIGURATION END ---
 
+const DEFAULT_EMBED_SETTINGS: EmbedSettings = { enabled: true, creator: '', copyright: '' };
+const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = { exifPolicy: 'strip-all' };
+const DEFAULT_AI_SETTINGS: AiSettings = { provider: 'gemini', model: '', endpoint: '' };
+
+// A provider may have been renamed or removed since the settings were saved
+const loadAiSettings = (): AiSettings => {
+  const settings = loadSettings('ai', DEFAULT_AI_SETTINGS);
+  return listProviders().some(p => p.id === settings.provider) ? settings : DEFAULT_AI_SETTINGS;
+};
+const DEFAULT_PROJECT_CONTEXT: ProjectContext = {
+  articleTitle: '',
+  focusKeyphrase: '',
+  secondaryKeywords: [],
+  tone: '',
+  brandName: '',
+  language: 'en',
+  translationLocales: []
+};
+const DEFAULT_QUALITY_SETTINGS: QualitySettings = { minSsim: 0, smartByDefault: false, smartFloor: 0.96 };
+const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: false,
+  type: 'text',
+  text: '',
+  color: '#ffffff',
+  logo: null,
+  position: 'bottom-right',
+  opacity: 0.6,
+  scale: 0.2,
+  margin: 0.03
+};
+const DEFAULT_BULK_AI_SETTINGS: BulkAiSettings = { concurrency: 2, requestsPerMinute: 15 };
+const DEFAULT_CMS_EXPORT_SETTINGS: CmsExportSettings = { baseUrl: '', pageUrl: '', licenseUrl: '' };
+
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+const compressionQueue = createCompressionQueue();
+
+/**
+ * Queues the compression step for an image using its current settings
+ * and returns the fields to merge back into it.
+ */
+const runCompression = async (
+  img: OptimizedImage,
+  watermark: WatermarkSettings,
+  options: { signal: AbortSignal; onStart: () => void }
+): Promise<Partial<OptimizedImage>> => {
+  // Optimizing an SVG is quick text processing that needs the DOM, so it skips the worker queue
+  if (img.svgMode === 'optimize') {
+    const { blob, width, height } = await optimizeSvg(img.originalFile);
+    return {
+      compressedBlob: blob,
+      compressedSize: blob.size,
+      targetMet: null,
+      width,
+      height,
+      variants: [],
+      qualityScore: null,
+      compressionError: null
+    };
+  }
+
+  const file = img.svgMode === 'rasterize' ? await rasterizeSvg(img.originalFile, img.rasterWidth) : img.decodedFile ?? img.originalFile;
+  const value = await compressionQueue.run(buildCompressionJob(img, file, watermark), options);
+  return applyCompressionResult(value);
+};
+
 const App: React.FC = () => {
   const [images, setImages] = useState<OptimizedImage[]>([]);
   const [isDragging, setIsDragging] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  // Drops are blocked while a saved queue loads, or it would replace them
+  const [isRestoring, setIsRestoring] = useState(isPersistenceAvailable);
+  const [showSettings, setShowSettings] = useState(false);
+  const [embedSettings, setEmbedSettings] = useState<EmbedSettings>(() => loadSettings('embed', DEFAULT_EMBED_SETTINGS));
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(() => loadSettings('privacy', DEFAULT_PRIVACY_SETTINGS));
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [apiKeys, setApiKeys] = useState<ApiKeySettings>(loadApiKeys);
+  const [bulkAiSettings, setBulkAiSettings] = useState<BulkAiSettings>(() => loadSettings('bulk-ai', DEFAULT_BULK_AI_SETTINGS));
+  const [projectContext, setProjectContext] = useState<ProjectContext>(DEFAULT_PROJECT_CONTEXT);
+  const [watermark, setWatermark] = useState<WatermarkSettings>(DEFAULT_WATERMARK);
+  const [qualitySettings, setQualitySettings] = useState<QualitySettings>(() => loadSettings('quality', DEFAULT_QUALITY_SETTINGS));
+  const [profileSettings, setProfileSettings] = useState<ProfileSettings>(() => loadSettings('profiles', DEFAULT_PROFILE_SETTINGS));
+  const [cmsExportSettings, setCmsExportSettings] = useState<CmsExportSettings>(() => loadSettings('cms-export', DEFAULT_CMS_EXPORT_SETTINGS));
+  const [lintSettings, setLintSettings] = useState<LintSettings>(() => loadSettings('lint', DEFAULT_LINT_SETTINGS));
+  const [bulkProgress, setBulkProgress] = useState<BatchProgress | null>(null);
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [overwriteEdited, setOverwriteEdited] = useState(false);
+  const bulkRun = useRef<BatchControl | null>(null);
+  const jobControllers = useRef(new Map<string, AbortController>());
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null); // null until restored, or when IndexedDB is unavailable
+  const persistedImages = useRef(new Map<string, OptimizedImage>()); // What IndexedDB holds for the current session
+  const latestImages = useRef(images);
+  const latestWatermark = useRef(watermark); // Read by jobs started from timers
+  const saveTimer = useRef<number | undefined>(undefined);
+  const watermarkTimer = useRef<number | undefined>(undefined);
+  latestImages.current = images;
+  latestWatermark.current = watermark;
+  const [supportedFormats, setSupportedFormats] = useState<Partial<Record<OutputFormat, boolean>>>({});
+
+  useEffect(() => {
+    detectSupportedFormats().then(setSupportedFormats);
+  }, []);
+
+  useEffect(() => {
+    saveSettings('embed', embedSettings);
+  }, [embedSettings]);
+
+  useEffect(() => {
+    saveSettings('privacy', privacySettings);
+  }, [privacySettings]);
+
+  useEffect(() => {
+    saveSettings('ai', aiSettings);
+  }, [aiSettings]);
+
+  useEffect(() => {
+    saveApiKeys(apiKeys);
+  }, [apiKeys]);
+
+  useEffect(() => {
+    saveSettings('bulk-ai', bulkAiSettings);
+  }, [bulkAiSettings]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session || session.projectContext === projectContext) return;
+    updateSession({ ...session, projectContext });
+  }, [projectContext]);
+
+  // Images are updated immutably, so a changed reference means the stored copy is stale
+  useEffect(() => {
+    if (!sessionId) return;
+    window.clearTimeout(saveTimer.current);
+    saveTimer.current = window.setTimeout(() => flushQueue(sessionId), 500);
+  }, [images, sessionId]);
+
+  useEffect(() => {
+    if (!isPersistenceAvailable()) return;
+    (async () => {
+      try {
+        let list = await listSessions();
+        if (list.length === 0) {
+          list = [await createSession('Untitled project', DEFAULT_PROJECT_CONTEXT, DEFAULT_WATERMARK)];
+        }
+        setSessions(list);
+        const { currentId } = loadSettings('session', { currentId: '' });
+        await openSession(list.find(s => s.id === currentId) || list[0], false);
+      } catch (error) {
+        console.error("Could not restore the saved queue", error);
+      } finally {
+        setIsRestoring(false);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    saveSettings('lint', lintSettings);
+  }, [lintSettings]);
+
+  useEffect(() => {
+    saveSettings('quality', qualitySettings);
+  }, [qualitySettings]);
+
+  useEffect(() => {
+    saveSettings('profiles', profileSettings);
+  }, [profileSettings]);
+
+  useEffect(() => {
+    saveSettings('cms-export', cmsExportSettings);
+  }, [cmsExportSettings]);
+
+  /**
+   * Writes images changed since the last save and deletes removed ones.
+   */
+  const flushQueue = async (id: string) => {
+    const saved = persistedImages.current;
+    const current = latestImages.current;
+    const changed = current
+      .map((image, order) => ({ image, order }))
+      .filter(({ image }) => saved.get(image.id) !== image);
+    const removedIds = Array.from(saved.keys()).filter(savedId => !current.some(img => img.id === savedId));
+    persistedImages.current = new Map(current.map(img => [img.id, img]));
+
+    try {
+      await syncSessionImages(id, changed, removedIds);
+    } catch (error) {
+      console.error("Could not save the queue", error);
+    }
+  };
+
+  const updateSession = (session: Session) => {
+    const updated = { ...session, updatedAt: Date.now() };
+    setSessions(prev => prev.map(s => s.id === session.id ? updated : s));
+    saveSession(updated).catch(error => console.error("Could not save the project", error));
+  };
+
+  /**
+   * Replaces the queue with a stored session's images. Compressions that a reload
+   * interrupted are queued again.
+   */
+  const openSession = async (session: Session, flushCurrent = true) => {
+    setIsRestoring(true);
+    try {
+      bulkRun.current?.cancel();
+      setBulkProgress(null);
+      jobControllers.current.forEach(controller => controller.abort());
+      window.clearTimeout(saveTimer.current);
+      if (flushCurrent && sessionId) await flushQueue(sessionId);
+
+      const stored = await loadSessionImages(session.id);
+      const restored: OptimizedImage[] = stored.map(image => ({
+        ...image,
+        // Saved before these fields existed
+        ssimFloor: image.ssimFloor ?? null,
+        hasAlpha: image.hasAlpha ?? false,
+        animated: image.animated ?? false,
+        matteColor: image.matteColor ?? DEFAULT_MATTE_COLOR,
+        decodedFile: image.decodedFile ?? null,
+        svgMode: image.svgMode ?? null,
+        rasterWidth: image.rasterWidth ?? DEFAULT_RASTER_WIDTH,
+        compressionError: image.compressionError ?? null,
+        transform: image.transform ?? null,
+        watermarkOptOut: image.watermarkOptOut ?? false,
+        profileId: image.profileId ?? null,
+        // Before profiles, every image was limited to 1920px wide
+        maxWidth: image.maxWidth === undefined ? 1920 : image.maxWidth,
+        maxHeight: image.maxHeight ?? null,
+        resizeMode: image.resizeMode ?? 'fit',
+        writeMetadata: image.writeMetadata ?? true,
+        originalPreview: URL.createObjectURL(image.decodedFile ?? image.originalFile),
+        status: image.status === 'pending' || image.status === 'compressing'
+          ? 'pending'
+          : image.status === 'analyzing' ? (image.compressedBlob ? 'done' : 'cancelled') : image.status
+      }));
+
+      latestImages.current.forEach(img => URL.revokeObjectURL(img.originalPreview));
+      persistedImages.current = new Map(restored.map(img => [img.id, img]));
+      latestImages.current = restored;
+      setImages(restored);
+      setProjectContext(session.projectContext);
+      // Projects saved before watermarks existed
+      const sessionWatermark = session.watermark ?? DEFAULT_WATERMARK;
+      // The restored compressions below start before the next render updates the ref
+      latestWatermark.current = sessionWatermark;
+      setWatermark(sessionWatermark);
+      setSessionId(session.id);
+      saveSettings('session', { currentId: session.id });
+
+      restored.filter(img => img.status === 'pending').forEach(img => compress(img));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleSwitchSession = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (session && id !== sessionId) openSession(session);
+  };
+
+  const handleCreateSession = async () => {
+    // A new article keeps the language setup but starts without keywords
+    // The watermark is usually the brand's, so it carries over too
+    try {
+      const session = await createSession('Untitled project', {
+        ...DEFAULT_PROJECT_CONTEXT,
+        language: projectContext.language,
+        translationLocales: projectContext.translationLocales
+      }, watermark);
+      setSessions(prev => [session, ...prev]);
+      await openSession(session);
+    } catch (error) {
+      console.error("Could not create the project", error);
+    }
+  };
+
+  const handleRenameSession = (name: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (session) updateSession({ ...session, name });
+  };
+
+  const handleDeleteSession = async () => {
+    if (!sessionId) return;
+    const deletedId = sessionId;
+    try {
+      // Make sure there is a project to switch to before anything is deleted
+      let next = sessions.find(s => s.id !== deletedId);
+      if (!next) {
+        const created = await createSession('Untitled project', DEFAULT_PROJECT_CONTEXT, DEFAULT_WATERMARK);
+        setSessions(prev => [created, ...prev]);
+        next = created;
+      }
+
+      // A pending save would write the images back under the deleted id
+      window.clearTimeout(saveTimer.current);
+      await deleteSession(deletedId);
+      window.clearTimeout(saveTimer.current);
+      // Nothing left to flush: the stored images went with the session
+      persistedImages.current = new Map();
+      setSessionId(null);
+      setSessions(prev => prev.filter(s => s.id !== deletedId));
+      await openSession(next, false);
+    } catch (error) {
+      console.error("Could not delete the project", error);
+    }
+  };
 
   const updateImage = (id: string, updates: Partial<OptimizedImage>) => {
     setImages(prev => prev.map(img => img.id === id ? { ...img, ...updates } : img));
   };
 
+  /**
+   * Queues an image for compression, replacing any job already queued or running for it.
+   */
+  const compress = async (img: OptimizedImage) => {
+    jobControllers.current.get(img.id)?.abort();
+    const controller = new AbortController();
+    jobControllers.current.set(img.id, controller);
+
+    try {
+      const result = await runCompression(img, latestWatermark.current, {
+        signal: controller.signal,
+        onStart: () => updateImage(img.id, { status: 'compressing' })
+      });
+      updateImage(img.id, { ...result, status: 'done' });
+    } catch (error) {
+      if (isAbortError(error)) return; // Whoever aborted has already updated the status
+      console.error("Compression failed", error);
+      updateImage(img.id, { status: 'error', compressionError: error instanceof Error ? error.message : String(error) });
+    } finally {
+      if (jobControllers.current.get(img.id) === controller) {
+        jobControllers.current.delete(img.id);
+      }
+    }
+  };
+
+  const cancelCompression = (id: string) => {
+    jobControllers.current.get(id)?.abort();
+    // Keep the previous result if there is one
+    setImages(prev => prev.map(img => img.id === id
+      ? { ...img, status: img.compressedBlob ? 'done' : 'cancelled' }
+      : img
+    ));
+  };
+
   const processFiles = async (files: FileList | null) => {
-    if (!files) return;
+    if (!files || isRestoring) return;
+
+    // The default profile may have been deleted since it was chosen
+    const profile = getProfile(profileSettings.profiles, profileSettings.defaultId) ?? profileSettings.profiles[0] ?? DEFAULT_PROFILES[0];
 
     const newImages: OptimizedImage[] = Array.from(files)
-      .filter(file => file.type.startsWith('image/'))
-      .map(file => ({
+      .filter(file => file.type.startsWith('image/') || isHeicFile(file))
+      .map(file => createOptimizedImage(file, {
         id: generateId(),
-        originalFile: file,
         originalPreview: URL.createObjectURL(file),
-        compressedBlob: null,
-        compressedSize: 0,
-        originalSize: file.size,
-        status: 'pending',
-        metadata: {
-          title: '',
-          altText: '',
-          caption: '',
-          fileName: file.name.split('.')[0].toLowerCase().replace(/\s+/g, '-')
-        },
-        currentQuality: 0.7
+        profile,
+        defaultExifPolicy: privacySettings.exifPolicy,
+        ssimFloor: qualitySettings.smartByDefault ? qualitySettings.smartFloor : null
       }));
 
     setImages(prev => [...prev, ...newImages]);
 
-    newImages.forEach(async (img) => {
-      updateImage(img.id, { status: 'compressing' });
+    for (const img of newImages) {
+      // Browsers can't draw HEIC and AI providers don't accept SVG, so both get a PNG copy
+      let decodedFile: File | null = null;
       try {
-        const compressed = await compressImage(img.originalFile, {
-          quality: img.currentQuality,
-          maxWidth: 1920,
-          outputFormat: 'image/jpeg'
-        });
-        updateImage(img.id, { 
-          compressedBlob: compressed,
-          compressedSize: compressed.size,
-          status: 'done'
-        });
+        if (isHeicFile(img.originalFile)) {
+          decodedFile = await decodeHeic(img.originalFile);
+        } else if (img.svgMode) {
+          decodedFile = await rasterizeSvg(img.originalFile, img.rasterWidth);
+        }
       } catch (error) {
-        console.error("Compression failed", error);
-        updateImage(img.id, { status: 'error' });
+        updateImage(img.id, { status: 'error', compressionError: error instanceof Error ? error.message : String(error) });
+        continue;
       }
-    });
+
+      // EXIF is read before compression so the orientation can be applied
+      const updates: Partial<OptimizedImage> = { ...(await analyzeImage(img, decodedFile ?? img.originalFile)), decodedFile };
+      if (decodedFile) {
+        URL.revokeObjectURL(img.originalPreview);
+        updates.originalPreview = URL.createObjectURL(decodedFile);
+      }
+      updateImage(img.id, updates);
+      compress({ ...img, ...updates });
+    }
   };
 
-  const handleRecompress = async (id: string, newQuality: number) => {
+  /**
+   * Saves the project's watermark and re-renders every image that uses it.
+   */
+  const handleWatermarkChange = (next: WatermarkSettings) => {
+    const wasVisible = watermark.enabled;
+    setWatermark(next);
+    const session = sessions.find(s => s.id === sessionId);
+    if (session) updateSession({ ...session, watermark: next });
+    if (!wasVisible && !next.enabled) return;
+
+    // Debounced so typing the text doesn't restart every job on each key
+    window.clearTimeout(watermarkTimer.current);
+    watermarkTimer.current = window.setTimeout(() => {
+      latestImages.current
+        .filter(img => !img.watermarkOptOut && img.svgMode !== 'optimize' && img.status !== 'analyzing')
+        .forEach(img => {
+          updateImage(img.id, { status: 'pending' });
+          compress(img);
+        });
+    }, 600);
+  };
+
+  const handleRecompress = async (id: string, settings: Partial<CompressionSettings>) => {
     const img = images.find(i => i.id === id);
     if (!img) return;
 
-    updateImage(id, { status: 'compressing', currentQuality: newQuality });
+    updateImage(id, { status: 'pending', ...settings });
+    await compress({ ...img, ...settings });
+  };
 
-    try {
-      const compressed = await compressImage(img.originalFile, {
-        quality: newQuality,
-        maxWidth: 1920,
-        outputFormat: 'image/jpeg'
-      });
-      updateImage(id, {
-        compressedBlob: compressed,
-        compressedSize: compressed.size,
-        status: 'done'
-      });
-    } catch (error) {
-      console.error("Re-compression failed", error);
-      updateImage(id, { status: 'error' });
-    }
+  /**
+   * Switches one image to a different profile's settings.
+   */
+  const handleApplyProfile = (id: string, profileId: string) => {
+    const profile = getProfile(profileSettings.profiles, profileId);
+    if (!profile) return;
+    // The metadata options only matter on export, so they don't need to go through the compression job
+    const { exifPolicy, writeMetadata, ...settings } = profileToImageSettings(profile, privacySettings.exifPolicy);
+    updateImage(id, { exifPolicy, writeMetadata });
+    handleRecompress(id, settings);
   };
 
   const removeImage = (id: string) => {
+    jobControllers.current.get(id)?.abort();
     setImages(prev => {
         const img = prev.find(i => i.id === id);
         if (img) URL.revokeObjectURL(img.originalPreview);
@@ -97,6 +484,115 @@ const App: React.FC = () => {
     });
   };
 
+  const clearAll = () => {
+    bulkRun.current?.cancel();
+    jobControllers.current.forEach(controller => controller.abort());
+    images.forEach(img => URL.revokeObjectURL(img.originalPreview));
+    setImages([]);
+  };
+
+  const applyExifPolicyToAll = (policy: ExifPolicy) => {
+    setImages(prev => prev.map(img => ({ ...img, exifPolicy: policy })));
+  };
+
+  const structuredDataOptions: StructuredDataOptions = {
+    ...cmsExportSettings,
+    creator: embedSettings.creator,
+    copyright: embedSettings.copyright,
+    language: projectContext.language
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await buildBatchZip(images, embedSettings, buildStructuredDataEntries(images, structuredDataOptions));
+      downloadBlob(zip, 'optimized-images.zip');
+    } catch (error) {
+      console.error("ZIP export failed", error);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  // Images that can be analyzed now: not being compressed or analyzed already
+  const isIdle = (img: OptimizedImage) => !['pending', 'compressing', 'analyzing'].includes(img.status);
+  const editedCount = images.filter(img => isIdle(img) && img.metadataEdited).length;
+  const bulkEligibleCount = images.filter(img => isIdle(img) && (overwriteEdited || !img.metadataEdited)).length;
+
+  /**
+   * Generates metadata for one image and puts the card back into the status it had. Unless
+   * `overwrite` is set, the result is dropped if the user typed into the card meanwhile.
+   * Failures are recorded on the image and rethrown.
+   */
+  const analyzeMetadata = async (queued: OptimizedImage, apiKey: string, overwrite: boolean, signal?: AbortSignal) => {
+    // A batch can reach an item long after queueing it; skip it if it was removed or got busy since
+    const target = latestImages.current.find(img => img.id === queued.id);
+    if (!target || !isIdle(target)) return;
+    updateImage(target.id, { status: 'analyzing', aiError: null });
+    // A recompression may have changed the status meanwhile; only undo our own
+    const restoreStatus = (img: OptimizedImage) => img.status === 'analyzing' ? target.status : img.status;
+
+    try {
+      const generated = await generateImageMetadata(target.decodedFile ?? target.originalFile, aiSettings, apiKey, projectContext, signal);
+      setImages(prev => prev.map(img => {
+        if (img.id !== target.id) return img;
+        // Every edit replaces the metadata object, so a different one means the user typed
+        if (img.metadata !== target.metadata && !overwrite) return { ...img, status: restoreStatus(img) };
+        return { ...img, metadata: mergeGeneratedMetadata(img.metadata, generated), metadataEdited: false, status: restoreStatus(img) };
+      }));
+    } catch (error) {
+      setImages(prev => prev.map(img => img.id === target.id
+        ? { ...img, status: restoreStatus(img), aiError: signal?.aborted ? img.aiError : toAiError(error) }
+        : img
+      ));
+      throw error;
+    }
+  };
+
+  const handleGenerateMetadata = (id: string) => {
+    const target = images.find(img => img.id === id);
+    if (!target) return Promise.resolve();
+    return analyzeMetadata(target, apiKeys.keys[aiSettings.provider] || '', false);
+  };
+
+  const handleGenerateAll = () => {
+    const apiKey = apiKeys.keys[aiSettings.provider] || '';
+    if (isMissingApiKey(aiSettings, apiKey)) {
+      setShowSettings(true);
+      return;
+    }
+
+    const targets = images.filter(img => isIdle(img) && (overwriteEdited || !img.metadataEdited));
+    if (targets.length === 0) return;
+
+    const analyze = (target: OptimizedImage, signal: AbortSignal) => analyzeMetadata(target, apiKey, overwriteEdited, signal);
+    const run = runBatch(targets, analyze, { ...bulkAiSettings, onProgress: setBulkProgress });
+    bulkRun.current = run;
+    setIsBulkRunning(true);
+    run.done.then(() => {
+      if (bulkRun.current !== run) return;
+      bulkRun.current = null;
+      setIsBulkRunning(false);
+    });
+  };
+
+  const lintResults = lintQueue(images, lintSettings);
+  const exportNames = dedupeFileNames(images.filter(isExportable));
+  const lintSummary = Array.from(lintResults.values()).reduce(
+    (sum, result) => ({
+      score: sum.score + result.score,
+      errors: sum.errors + result.issues.filter(i => i.level === 'error').length,
+      warnings: sum.warnings + result.issues.filter(i => i.level === 'warning').length
+    }),
+    { score: 0, errors: 0, warnings: 0 }
+  );
+
+  const belowQualityCount = qualitySettings.minSsim > 0
+    ? images.filter(img => img.qualityScore && img.qualityScore.ssim < qualitySettings.minSsim).length
+    : 0;
+
+  const doneCount = images.filter(img => img.status === 'done' && img.compressedBlob).length;
+
   const onDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -111,7 +607,7 @@ const App: React.FC = () => {
     e.preventDefault();
     setIsDragging(false);
     processFiles(e.dataTransfer.files);
-  }, []);
+  }, [profileSettings, privacySettings, qualitySettings, isRestoring]);
 
   const onFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     processFiles(e.target.files);
@@ -135,12 +631,62 @@ const App: React.FC = () => {
                 <p className="text-xs text-gray-500 font-medium">Smart Compression & AI Metadata</p>
              </div>
           </div>
-          <div className="text-sm text-gray-500 hidden sm:block bg-gray-50 px-3 py-1 rounded-full border border-gray-100">
-            Supports: JPG, PNG, WEBP
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-gray-500 flex items-center gap-2">
+              <span className="hidden sm:inline">Profile:</span>
+              <select
+                value={profileSettings.defaultId}
+                onChange={(e) => setProfileSettings({ ...profileSettings, defaultId: e.target.value })}
+                title="Settings new images start with"
+                className="text-sm bg-gray-50 border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                {profileSettings.profiles.map(p => (
+                  <option key={p.id} value={p.id}>
+                    {p.name} ({describeProfileSize(p)})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="text-sm text-gray-500 hidden sm:block bg-gray-50 px-3 py-1 rounded-full border border-gray-100">
+              Supports: JPG, PNG, WEBP, GIF, SVG, HEIC
+            </div>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+              aria-label="Settings"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
           </div>
         </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel
+          embedSettings={embedSettings}
+          onEmbedSettingsChange={setEmbedSettings}
+          privacySettings={privacySettings}
+          onPrivacySettingsChange={setPrivacySettings}
+          onApplyExifPolicyToAll={images.length > 0 ? applyExifPolicyToAll : undefined}
+          aiSettings={aiSettings}
+          onAiSettingsChange={setAiSettings}
+          apiKeys={apiKeys}
+          onApiKeysChange={setApiKeys}
+          bulkAiSettings={bulkAiSettings}
+          onBulkAiSettingsChange={setBulkAiSettings}
+          lintSettings={lintSettings}
+          onLintSettingsChange={setLintSettings}
+          qualitySettings={qualitySettings}
+          onQualitySettingsChange={setQualitySettings}
+          profileSettings={profileSettings}
+          onProfileSettingsChange={setProfileSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       {/* Main Container */}
       <div className="max-w-[1600px] mx-auto w-full px-4 py-8 flex gap-8 flex-1 items-start justify-center">
         
@@ -178,6 +724,17 @@ const App: React.FC = () => {
             />
           </div>
 
+          {sessionId && (
+            <SessionBar
+              sessions={sessions}
+              currentId={sessionId}
+              onSwitch={handleSwitchSession}
+              onCreate={handleCreateSession}
+              onRename={handleRenameSession}
+              onDelete={handleDeleteSession}
+            />
+          )}
+
           {/* Upload Area */}
           <div 
             className={`
@@ -187,18 +744,19 @@ const App: React.FC = () => {
                 ? 'border-indigo-500 bg-indigo-50/50 scale-[1.01] shadow-lg' 
                 : 'border-gray-300 hover:border-indigo-400 hover:bg-white bg-white shadow-sm hover:shadow-md'
               }
+              ${isRestoring ? 'opacity-60 cursor-wait' : ''}
             `}
             onDragOver={onDragOver}
             onDragLeave={onDragLeave}
             onDrop={onDrop}
-            onClick={() => document.getElementById('fileInput')?.click()}
+            onClick={() => !isRestoring && document.getElementById('fileInput')?.click()}
           >
             <input 
               type="file" 
               id="fileInput" 
               className="hidden" 
               multiple 
-              accept="image/*"
+              accept="image/*,.heic,.heif"
               onChange={onFileInput} 
             />
             
@@ -208,7 +766,7 @@ const App: React.FC = () => {
                </svg>
             </div>
             <h2 className="text-2xl font-bold text-gray-800 mb-2">
-              Upload Images
+              {isRestoring ? 'Restoring your saved queue...' : 'Upload Images'}
             </h2>
             <p className="text-gray-500 max-w-sm mx-auto">
               Drag & drop your files here, or click to browse. We'll optimize them for better SEO.
@@ -233,22 +791,99 @@ const App: React.FC = () => {
                   <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
                     <span className="w-2 h-6 bg-indigo-600 rounded-full"></span>
                     Queue ({images.length})
+                    <SeoScoreBadge score={Math.round(lintSummary.score / images.length)} label="Avg SEO" />
+                    {(lintSummary.errors > 0 || lintSummary.warnings > 0) && (
+                      <span className="text-xs font-medium text-gray-500">
+                        {lintSummary.errors > 0 && <span className="text-red-700">{lintSummary.errors} error{lintSummary.errors === 1 ? '' : 's'}</span>}
+                        {lintSummary.errors > 0 && lintSummary.warnings > 0 && ' · '}
+                        {lintSummary.warnings > 0 && <span className="text-amber-700">{lintSummary.warnings} warning{lintSummary.warnings === 1 ? '' : 's'}</span>}
+                      </span>
+                    )}
+                    {belowQualityCount > 0 && (
+                      <span className="text-xs font-medium text-red-700">
+                        · {belowQualityCount} below quality bar
+                      </span>
+                    )}
                   </h2>
-                  <button 
-                    onClick={() => setImages([])} 
-                    className="text-sm text-red-600 hover:text-red-700 font-semibold hover:bg-red-50 px-3 py-1.5 rounded-lg transition-colors"
-                  >
-                    Clear All
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handleDownloadAll}
+                      disabled={isZipping || doneCount === 0}
+                      className="text-sm bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 font-semibold px-3 py-1.5 rounded-lg transition-colors shadow-sm"
+                    >
+                      {isZipping ? 'Zipping...' : `Download All (${doneCount})`}
+                    </button>
+                    <CmsExportMenu
+                      images={images}
+                      settings={cmsExportSettings}
+                      onSettingsChange={setCmsExportSettings}
+                      title={sessions.find(s => s.id === sessionId)?.name || 'Optimized images'}
+                      language={projectContext.language}
+                      disabled={doneCount === 0}
+                    />
+                    <button 
+                      onClick={clearAll} 
+                      className="text-sm text-red-600 hover:text-red-700 font-semibold hover:bg-red-50 px-3 py-1.5 rounded-lg transition-colors"
+                    >
+                      Clear All
+                    </button>
+                  </div>
                </div>
             )}
+
+            {images.length > 0 && (
+              <ProjectContextPanel key={sessionId} context={projectContext} onChange={setProjectContext} />
+            )}
+
+            {images.length > 0 && (
+              <WatermarkPanel key={sessionId} settings={watermark} onChange={handleWatermarkChange} />
+            )}
+
+            {doneCount > 0 && (
+              <StructuredDataPanel
+                images={images}
+                settings={cmsExportSettings}
+                onSettingsChange={setCmsExportSettings}
+                options={structuredDataOptions}
+              />
+            )}
+
+            {images.length > 0 && (
+              <BulkGeneratePanel
+                progress={bulkProgress}
+                isRunning={isBulkRunning}
+                eligibleCount={bulkEligibleCount}
+                editedCount={editedCount}
+                overwriteEdited={overwriteEdited}
+                onOverwriteEditedChange={setOverwriteEdited}
+                onStart={handleGenerateAll}
+                onPause={() => bulkRun.current?.pause()}
+                onResume={() => bulkRun.current?.resume()}
+                onCancel={() => bulkRun.current?.cancel()}
+              />
+            )}
             
             {images.map(image => (
               <ImageEditor 
                 key={image.id} 
                 image={image} 
+                exportName={exportNames.get(image.id) ?? getBaseFileName(image)}
                 onUpdate={updateImage}
-                onQualityChange={handleRecompress}
+                supportedFormats={supportedFormats}
+                embedSettings={embedSettings}
+                aiSettings={aiSettings}
+                projectContext={projectContext}
+                lint={lintResults.get(image.id)!}
+                minSsim={qualitySettings.minSsim}
+                smartFloor={qualitySettings.smartFloor}
+                watermarkEnabled={watermark.enabled}
+                profiles={profileSettings.profiles}
+                apiKey={apiKeys.keys[aiSettings.provider] || ''}
+                onOpenSettings={() => setShowSettings(true)}
+                onRecompress={handleRecompress}
+                onApplyProfile={handleApplyProfile}
+                onGenerateMetadata={handleGenerateMetadata}
+                onCancel={cancelCompression}
                 onRemove={removeImage} 
               />
             ))}
@@ -0,0 +1,267 @@
+#!/usr/bin/env node
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { AiProviderId, CompressionProfile, EmbedSettings, OptimizedImage, ProjectContext } from '../types.ts';
+import { setImageBackend } from '../services/imageBackend.ts';
+import { formatBytes, getFormatLabel, runCompressionJob } from '../services/compressionService.ts';
+import { analyzeImage, applyCompressionResult, buildCompressionJob, createOptimizedImage } from '../services/pipelineService.ts';
+import { DEFAULT_PROFILES, mergeProfiles, parseProfiles } from '../services/profileService.ts';
+import { generateImageMetadata, getProvider, isMissingApiKey, listProviders } from '../services/metadataService.ts';
+import { mergeGeneratedMetadata } from '../services/metadataUtils.ts';
+import { runBatch } from '../services/batchService.ts';
+import { toAiError } from '../services/aiErrors.ts';
+import { buildExportEntries } from '../services/exportService.ts';
+import { buildStructuredDataEntries, hasSitemapUrls, SITEMAP_FILE_NAME } from '../services/structuredDataService.ts';
+import { nodeImageBackend } from './nodeImageBackend.ts';
+
+const USAGE = `Usage: aj-seo optimize <dir> [options]
+
+Compresses every image under <dir> and writes the results, their srcset variants,
+a manifest.json / manifest.csv with the metadata, an image sitemap entry (when
+--base-url and --page-url are set) and schema.org JSON-LD to the output directory.
+
+Options:
+  --out <dir>            Output directory (default: ./dist)
+  --profile <name>       Compression profile by id or name, e.g. "blog" or "thumbnail" (default: standard)
+  --profiles <file>      Extra profiles exported from the app's settings
+  --ssim-floor <value>   Use smart quality: the smallest output with at least this SSIM
+  --ai                   Generate title, alt text, caption and file name with AI
+  --provider <id>        AI provider: ${listProviders().map(p => p.id).join(', ')} (default: gemini)
+  --model <name>         Model to use instead of the provider default
+  --endpoint <url>       Endpoint to use instead of the provider default
+  --keyphrase <text>     Focus keyphrase to work into the metadata
+  --article <title>      Title of the article the images belong to
+  --brand <name>         Brand name
+  --lang <code>          Language of the metadata (default: en)
+  --translate <codes>    Extra languages, comma separated, e.g. "de,fr"
+  --concurrency <n>      Parallel AI requests (default: 2)
+  --rpm <n>              Max AI requests per minute, 0 for no limit (default: 15)
+  --creator <name>       Creator written into the files
+  --copyright <text>     Copyright notice written into the files
+  --no-embed             Don't embed title, caption and rights into the files
+  --base-url <url>       Where the files will be served from, for the sitemap and JSON-LD
+  --page-url <url>       Page the images appear on, for the sitemap
+  --license <url>        License page, for the JSON-LD
+  -h, --help             Show this help
+
+The AI key is read from AJ_SEO_API_KEY, or GEMINI_API_KEY / OPENAI_API_KEY for those providers.`;
+
+// Formats Skia can decode. SVG and HEIC need the browser, so the app handles those.
+const INPUT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp'
+};
+const BROWSER_ONLY = new Set(['.svg', '.heic', '.heif']);
+
+const PROVIDER_KEY_VARIABLES: Partial<Record<AiProviderId, string>> = {
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY'
+};
+
+/**
+ * Finds a profile by id or name. A unique prefix is enough, so "blog" finds "blog-hero".
+ */
+const findProfile = (profiles: CompressionProfile[], query: string): CompressionProfile => {
+  const normalized = query.toLowerCase();
+  const exact = profiles.find(p => p.id === normalized || p.name.toLowerCase() === normalized);
+  if (exact) return exact;
+  const matches = profiles.filter(p => p.id.startsWith(normalized) || p.name.toLowerCase().startsWith(normalized));
+  if (matches.length === 1) return matches[0];
+  const available = profiles.map(p => p.id).join(', ');
+  throw new Error(matches.length
+    ? `"${query}" matches several profiles: ${matches.map(p => p.id).join(', ')}`
+    : `Unknown profile "${query}". Available: ${available}`);
+};
+
+/**
+ * Every file under `dir`, in a stable order.
+ */
+const listFiles = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true });
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => path.join(entry.parentPath, entry.name))
+    .sort();
+};
+
+const optimize = async (inputDir: string, options: ReturnType<typeof parseOptions>) => {
+  let profiles = DEFAULT_PROFILES;
+  if (options.profiles) {
+    profiles = mergeProfiles(profiles, parseProfiles(await readFile(options.profiles, 'utf8')));
+  }
+  const profile = findProfile(profiles, options.profile);
+
+  const aiSettings = { provider: options.provider as AiProviderId, model: options.model, endpoint: options.endpoint };
+  const provider = getProvider(aiSettings.provider);
+  const apiKey = process.env.AJ_SEO_API_KEY || process.env[PROVIDER_KEY_VARIABLES[provider.id] ?? ''] || '';
+  if (options.ai && isMissingApiKey(aiSettings, apiKey)) {
+    throw new Error(`${provider.label} needs an API key. Set AJ_SEO_API_KEY.`);
+  }
+
+  const images: OptimizedImage[] = [];
+  for (const filePath of await listFiles(inputDir)) {
+    const extension = path.extname(filePath).toLowerCase();
+    const relative = path.relative(inputDir, filePath);
+    if (BROWSER_ONLY.has(extension)) {
+      console.warn(`- ${relative}: skipped, ${extension.slice(1).toUpperCase()} files need the web app`);
+      continue;
+    }
+    const type = INPUT_TYPES[extension];
+    if (!type) continue;
+
+    const file = new File([await readFile(filePath)], path.basename(filePath), { type });
+    const image = createOptimizedImage(file, {
+      id: String(images.length + 1),
+      originalPreview: '',
+      profile,
+      defaultExifPolicy: 'strip-all',
+      ssimFloor: options.ssimFloor
+    });
+    images.push(image);
+
+    try {
+      Object.assign(image, await analyzeImage(image, file));
+      const result = await runCompressionJob(buildCompressionJob(image, file, null));
+      Object.assign(image, applyCompressionResult(result), { status: 'done' });
+      const format = getFormatLabel(image.compressedBlob!.type);
+      console.log(`✓ ${relative}: ${formatBytes(image.originalSize)} → ${formatBytes(image.compressedSize)} (${format} ${image.width}×${image.height})`);
+    } catch (error) {
+      image.status = 'error';
+      image.compressionError = error instanceof Error ? error.message : String(error);
+      console.error(`✗ ${relative}: ${image.compressionError}`);
+    }
+  }
+
+  const compressed = images.filter(img => img.status === 'done');
+  if (options.ai && compressed.length > 0) {
+    const context: ProjectContext = {
+      articleTitle: options.article,
+      focusKeyphrase: options.keyphrase,
+      secondaryKeywords: [],
+      tone: '',
+      brandName: options.brand,
+      language: options.lang,
+      translationLocales: options.translate
+    };
+    console.log(`Generating metadata for ${compressed.length} image(s) with ${provider.label}…`);
+    const run = runBatch(compressed, async (image, signal) => {
+      try {
+        image.metadata = mergeGeneratedMetadata(image.metadata, await generateImageMetadata(image.originalFile, aiSettings, apiKey, context, signal));
+      } catch (error) {
+        image.aiError = toAiError(error);
+        console.error(`✗ ${image.originalFile.name}: ${image.aiError.message}`);
+        throw error;
+      }
+    }, { concurrency: options.concurrency, requestsPerMinute: options.rpm, onProgress: () => {} });
+    await run.done;
+  }
+
+  const embedSettings: EmbedSettings = { enabled: options.embed, creator: options.creator, copyright: options.copyright };
+  await mkdir(options.out, { recursive: true });
+  const structuredDataOptions = {
+    baseUrl: options.baseUrl,
+    pageUrl: options.pageUrl,
+    licenseUrl: options.license,
+    creator: options.creator,
+    copyright: options.copyright,
+    language: options.lang
+  };
+  if (!hasSitemapUrls(structuredDataOptions)) {
+    console.warn(`- ${SITEMAP_FILE_NAME}: skipped, --base-url and --page-url must be full http(s) URLs`);
+  }
+  const structuredData = buildStructuredDataEntries(images, structuredDataOptions);
+  for (const entry of await buildExportEntries(images, embedSettings, structuredData)) {
+    const data = typeof entry.data === 'string' ? entry.data : new Uint8Array(await entry.data.arrayBuffer());
+    await writeFile(path.join(options.out, entry.name), data);
+  }
+
+  const failed = images.filter(img => img.status === 'error' || img.aiError).length;
+  console.log(`Wrote ${compressed.length} image(s) and the manifest to ${options.out}${failed ? `, ${failed} failed` : ''}`);
+  if (failed) process.exitCode = 1;
+};
+
+const parseOptions = (values: Record<string, string | boolean | undefined>) => {
+  const number = (name: string, fallback: number) => {
+    const value = values[name];
+    if (typeof value !== 'string') return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) throw new Error(`--${name} must be a number`);
+    return parsed;
+  };
+  const text = (name: string, fallback = '') => typeof values[name] === 'string' ? values[name] as string : fallback;
+
+  return {
+    out: text('out', 'dist'),
+    profile: text('profile', 'standard'),
+    profiles: text('profiles'),
+    ssimFloor: values['ssim-floor'] === undefined ? null : Math.min(0.99, Math.max(0.5, number('ssim-floor', 0))),
+    ai: values.ai === true,
+    provider: text('provider', 'gemini'),
+    model: text('model'),
+    endpoint: text('endpoint'),
+    keyphrase: text('keyphrase'),
+    article: text('article'),
+    brand: text('brand'),
+    lang: text('lang', 'en'),
+    translate: text('translate').split(',').map(code => code.trim()).filter(Boolean),
+    concurrency: number('concurrency', 2),
+    rpm: number('rpm', 15),
+    creator: text('creator'),
+    copyright: text('copyright'),
+    embed: values['no-embed'] !== true,
+    baseUrl: text('base-url'),
+    pageUrl: text('page-url'),
+    license: text('license')
+  };
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      profile: { type: 'string' },
+      profiles: { type: 'string' },
+      'ssim-floor': { type: 'string' },
+      ai: { type: 'boolean' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      endpoint: { type: 'string' },
+      keyphrase: { type: 'string' },
+      article: { type: 'string' },
+      brand: { type: 'string' },
+      lang: { type: 'string' },
+      translate: { type: 'string' },
+      concurrency: { type: 'string' },
+      rpm: { type: 'string' },
+      creator: { type: 'string' },
+      copyright: { type: 'string' },
+      'no-embed': { type: 'boolean' },
+      'base-url': { type: 'string' },
+      'page-url': { type: 'string' },
+      license: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [command, inputDir] = positionals;
+  if (values.help || command !== 'optimize' || !inputDir) {
+    console.log(USAGE);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  setImageBackend(nodeImageBackend);
+  await optimize(inputDir, parseOptions(values));
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
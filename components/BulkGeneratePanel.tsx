@@ -0,0 +1,96 @@
+import React from 'react';
+import { BatchProgress } from '../types.ts';
+
+interface Props {
+  progress: BatchProgress | null;
+  isRunning: boolean;
+  eligibleCount: number;
+  editedCount: number; // Images skipped unless overwriting
+  overwriteEdited: boolean;
+  onOverwriteEditedChange: (overwrite: boolean) => void;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+export const BulkGeneratePanel: React.FC<Props> = ({
+  progress,
+  isRunning,
+  eligibleCount,
+  editedCount,
+  overwriteEdited,
+  onOverwriteEditedChange,
+  onStart,
+  onPause,
+  onResume,
+  onCancel
+}) => {
+  const finished = progress ? progress.completed + progress.failed : 0;
+  const percent = progress && progress.total > 0 ? Math.round((finished / progress.total) * 100) : 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 mb-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-bold text-gray-800">Auto-Generate SEO for all</h3>
+          {editedCount > 0 && (
+            <label className="flex items-center gap-2 text-xs text-gray-500 mt-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={overwriteEdited}
+                onChange={(e) => onOverwriteEditedChange(e.target.checked)}
+                disabled={isRunning}
+                className="accent-indigo-600"
+              />
+              Overwrite {editedCount} image{editedCount === 1 ? '' : 's'} edited by hand
+            </label>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {isRunning ? (
+            <>
+              <button
+                onClick={progress?.paused ? onResume : onPause}
+                className="text-sm bg-indigo-50 text-indigo-700 hover:bg-indigo-100 font-semibold px-3 py-1.5 rounded-lg transition-colors"
+              >
+                {progress?.paused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={onCancel}
+                className="text-sm text-red-600 hover:bg-red-50 font-semibold px-3 py-1.5 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={eligibleCount === 0}
+              className="text-sm bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 font-semibold px-3 py-1.5 rounded-lg transition-colors shadow-sm"
+            >
+              Generate ({eligibleCount})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {progress && (
+        <div className="mt-3">
+          <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${progress.paused ? 'bg-amber-400' : 'bg-indigo-600'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {finished} of {progress.total} processed
+            {progress.failed > 0 && <span className="text-red-600"> · {progress.failed} failed</span>}
+            {progress.paused && isRunning && ' · Paused'}
+            {!isRunning && finished < progress.total && ' · Cancelled'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
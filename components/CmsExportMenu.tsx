@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { CmsExportFormat, CmsExportSettings, OptimizedImage } from '../types.ts';
+import { buildCmsExport, CMS_EXPORT_FORMATS } from '../services/cmsExportService.ts';
+import { isAbsoluteUrl } from '../services/markupService.ts';
+import { downloadBlob } from '../services/downloadService.ts';
+
+interface Props {
+  images: OptimizedImage[];
+  settings: CmsExportSettings;
+  onSettingsChange: (settings: CmsExportSettings) => void;
+  title: string;
+  language: string;
+  disabled: boolean;
+}
+
+export const CmsExportMenu: React.FC<Props> = ({ images, settings, onSettingsChange, title, language, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState<CmsExportFormat | null>(null);
+
+  const build = (format: CmsExportFormat) => buildCmsExport(images, format, { baseUrl: settings.baseUrl, title, language });
+
+  const handleCopy = async (format: CmsExportFormat) => {
+    try {
+      await navigator.clipboard.writeText(build(format));
+      setCopied(format);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (e) {
+      console.error("Clipboard write failed", e);
+    }
+  };
+
+  const handleDownload = (format: CmsExportFormat) => {
+    const { fileName, mimeType } = CMS_EXPORT_FORMATS.find(f => f.id === format)!;
+    downloadBlob(new Blob([build(format)], { type: mimeType }), fileName);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="text-sm text-indigo-600 hover:text-indigo-800 hover:bg-indigo-50 disabled:opacity-50 font-semibold px-3 py-1.5 rounded-lg transition-colors"
+      >
+        Export for CMS ▾
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-lg p-4 z-40">
+          <label className="block text-xs font-semibold text-gray-600 uppercase tracking-wider mb-1">Base URL or path</label>
+          <input
+            type="text"
+            value={settings.baseUrl}
+            onChange={(e) => onSettingsChange({ ...settings, baseUrl: e.target.value.trim() })}
+            placeholder="https://example.com/wp-content/uploads"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1 mb-3">Where the downloaded files will be uploaded. File names match "Download All".</p>
+
+          <ul className="divide-y divide-gray-100">
+            {CMS_EXPORT_FORMATS.map(format => (
+              <li key={format.id} className="py-2">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-gray-700 font-medium">{format.label}</span>
+                  <span className="flex gap-3 text-xs">
+                    <button onClick={() => handleCopy(format.id)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                      {copied === format.id ? 'Copied!' : 'Copy'}
+                    </button>
+                    <button onClick={() => handleDownload(format.id)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                      Download
+                    </button>
+                  </span>
+                </div>
+                {format.id === 'wxr' && !isAbsoluteUrl(settings.baseUrl) && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    WordPress downloads each file during import, so use a full https:// URL.
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
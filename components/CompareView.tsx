@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { OptimizedImage } from '../types.ts';
+import { renderReference } from '../services/compressionService.ts';
+import { isIdentityTransform } from '../services/cropService.ts';
+import { buildCompressionJob } from '../services/pipelineService.ts';
+
+interface Props {
+  image: OptimizedImage;
+  onClose: () => void;
+}
+
+type CompareMode = 'split' | 'toggle';
+
+export const CompareView: React.FC<Props> = ({ image, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [position, setPosition] = useState(50);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [actualSize, setActualSize] = useState(false);
+  const [optimizedUrl, setOptimizedUrl] = useState('');
+  const [referenceUrl, setReferenceUrl] = useState('');
+
+  // The untouched upload doesn't line up with a cropped, rotated or cover-resized output,
+  // so those are compared with the original framed the same way
+  const needsReference = !isIdentityTransform(image.transform) || image.resizeMode === 'cover';
+
+  useEffect(() => {
+    if (!image.compressedBlob) return;
+    const url = URL.createObjectURL(image.compressedBlob);
+    setOptimizedUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image.compressedBlob]);
+
+  useEffect(() => {
+    setReferenceUrl('');
+    if (!needsReference) return;
+    let cancelled = false;
+    let url = '';
+    const file = image.decodedFile ?? image.originalFile;
+    renderReference(file, buildCompressionJob(image, file, null).config)
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setReferenceUrl(url);
+      })
+      .catch(error => console.error("Could not render the original for comparison", error));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [image.compressedBlob, needsReference]);
+
+  const originalUrl = needsReference ? referenceUrl : image.originalPreview;
+
+  // At 100% both layers are drawn at the output's pixel size so they line up exactly
+  const layerClass = actualSize ? 'absolute inset-0 max-w-none' : 'absolute inset-0 w-full h-full object-contain';
+  const layerStyle = actualSize ? { width: image.width, height: image.height } : undefined;
+  const originalVisible = mode === 'split' || showOriginal;
+
+  const layers = (
+    <>
+      <img src={optimizedUrl} alt="Optimized" className={layerClass} style={layerStyle} />
+      {originalVisible && originalUrl && (
+        <img
+          src={originalUrl}
+          alt="Original"
+          className={layerClass}
+          style={{ ...layerStyle, clipPath: mode === 'split' ? `inset(0 ${100 - position}% 0 0)` : undefined }}
+        />
+      )}
+      {mode === 'split' && (
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }} />
+      )}
+    </>
+  );
+
+  return (
+    <div className="w-full mb-4">
+      <div className="relative w-full aspect-[4/3] bg-gray-100 rounded-lg overflow-hidden border border-gray-200">
+        {actualSize ? (
+          <div className="absolute inset-0 overflow-auto">
+            <div className="relative" style={layerStyle}>{layers}</div>
+          </div>
+        ) : layers}
+        <span className="absolute top-2 left-2 text-xs bg-black/60 text-white px-2 py-0.5 rounded pointer-events-none">
+          {mode === 'split' ? 'Original' : showOriginal ? 'Original' : 'Optimized'}
+        </span>
+        {mode === 'split' && (
+          <span className="absolute top-2 right-2 text-xs bg-black/60 text-white px-2 py-0.5 rounded pointer-events-none">
+            Optimized
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+        <div className="flex rounded-md border border-gray-200 overflow-hidden font-semibold">
+          {(['split', 'toggle'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-2 py-1 capitalize ${mode === m ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+        {mode === 'split' ? (
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={position}
+            onChange={(e) => setPosition(parseInt(e.target.value, 10))}
+            aria-label="Split position"
+            className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+        ) : (
+          <button
+            onClick={() => setShowOriginal(!showOriginal)}
+            className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium px-2 py-1 rounded-md"
+          >
+            Show {showOriginal ? 'optimized' : 'original'}
+          </button>
+        )}
+        <label className="flex items-center gap-1 text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={actualSize}
+            onChange={(e) => setActualSize(e.target.checked)}
+            className="accent-indigo-600"
+          />
+          100%
+        </label>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 font-medium px-1">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
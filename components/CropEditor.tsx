@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CropRect, ImageTransform, OptimizedImage } from '../types.ts';
+import {
+  CROP_PRESETS,
+  IDENTITY_TRANSFORM,
+  centeredCrop,
+  clampCrop,
+  getCropPreset,
+  getRotatedSize,
+  isIdentityTransform
+} from '../services/cropService.ts';
+import { suggestSmartCrop } from '../services/compressionService.ts';
+
+interface Props {
+  image: OptimizedImage;
+  onApply: (transform: ImageTransform | null) => void;
+  onClose: () => void;
+}
+
+interface Drag {
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const toolButtonClass = 'bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium px-2 py-1 rounded-md disabled:opacity-50';
+
+export const CropEditor: React.FC<Props> = ({ image, onApply, onClose }) => {
+  const [draft, setDraft] = useState<ImageTransform>(image.transform ?? IDENTITY_TRANSFORM);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const sourceRef = useRef<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<Drag | null>(null);
+
+  const preset = getCropPreset(draft.presetId);
+  const rotated = natural ? getRotatedSize(natural.width, natural.height, draft.rotation) : null;
+  const crop = draft.crop ?? FULL_CROP;
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      sourceRef.current = img;
+      setNatural({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.src = image.originalPreview;
+  }, [image.originalPreview]);
+
+  // Redraw the rotated/flipped image; the crop box is an overlay on top of it
+  useEffect(() => {
+    const img = sourceRef.current;
+    const canvas = canvasRef.current;
+    if (!img || !canvas || !natural || !rotated) return;
+    canvas.width = rotated.width;
+    canvas.height = rotated.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.translate(rotated.width / 2, rotated.height / 2);
+    ctx.scale(draft.flipH ? -1 : 1, draft.flipV ? -1 : 1);
+    ctx.rotate((draft.rotation * Math.PI) / 180);
+    ctx.drawImage(img, -natural.width / 2, -natural.height / 2);
+  }, [natural, draft.rotation, draft.flipH, draft.flipV]);
+
+  const cropForPreset = (presetId: string, size: { width: number; height: number }): CropRect | null => {
+    const aspect = getCropPreset(presetId).aspect;
+    return aspect ? centeredCrop(aspect, size.width, size.height) : null;
+  };
+
+  const handlePresetChange = (presetId: string) => {
+    if (!rotated) return;
+    const next = getCropPreset(presetId);
+    setDraft({
+      ...draft,
+      presetId: next.id,
+      crop: next.aspect ? cropForPreset(next.id, rotated) : draft.crop,
+      outputWidth: next.width ?? null
+    });
+  };
+
+  const handleRotate = (delta: 90 | -90) => {
+    if (!natural) return;
+    const rotation = ((draft.rotation + delta + 360) % 360) as ImageTransform['rotation'];
+    // The old crop doesn't map onto the new orientation, so start from the preset again
+    setDraft({ ...draft, rotation, crop: cropForPreset(preset.id, getRotatedSize(natural.width, natural.height, rotation)) });
+  };
+
+  const handleSmartCrop = async () => {
+    if (!preset.aspect) return;
+    setIsSuggesting(true);
+    try {
+      const suggestion = await suggestSmartCrop(image.decodedFile ?? image.originalFile, draft, preset.aspect, image.exif?.orientation);
+      setDraft(current => ({ ...current, crop: suggestion }));
+    } catch (e) {
+      console.error("Smart crop failed", e);
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const handlePointerDown = (mode: Drag['mode']) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!drag.current || !frame || !rotated) return;
+    const { mode, startX, startY, startCrop } = drag.current;
+    const dx = (e.clientX - startX) / frame.width;
+    const dy = (e.clientY - startY) / frame.height;
+
+    if (mode === 'move') {
+      setDraft({ ...draft, crop: clampCrop({ ...startCrop, x: startCrop.x + dx, y: startCrop.y + dy }) });
+      return;
+    }
+
+    let width = Math.min(1 - startCrop.x, startCrop.width + dx);
+    let height = Math.min(1 - startCrop.y, startCrop.height + dy);
+    const aspect = preset.aspect;
+    if (aspect) {
+      // Follow the horizontal drag and derive the height, shrinking both if that runs off the bottom
+      height = (width * rotated.width) / (aspect * rotated.height);
+      if (height > 1 - startCrop.y) {
+        height = 1 - startCrop.y;
+        width = (height * aspect * rotated.height) / rotated.width;
+      }
+    }
+    setDraft({ ...draft, crop: clampCrop({ ...startCrop, width, height }) });
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const outputSize = rotated && {
+    width: Math.round(crop.width * rotated.width),
+    height: Math.round(crop.height * rotated.height)
+  };
+
+  return (
+    <div className="w-full mb-4">
+      <div className="relative w-full aspect-[4/3] bg-gray-900 rounded-lg overflow-hidden border border-gray-200 flex items-center justify-center">
+        <div
+          ref={frameRef}
+          className="relative overflow-hidden touch-none"
+          // Fit the rotated image inside the 4:3 box: fill the width if it's wider, else the height
+          style={rotated ? {
+            aspectRatio: `${rotated.width} / ${rotated.height}`,
+            width: rotated.width / rotated.height >= 4 / 3 ? '100%' : 'auto',
+            height: rotated.width / rotated.height >= 4 / 3 ? 'auto' : '100%'
+          } : undefined}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <canvas ref={canvasRef} className="block w-full h-full" />
+          {rotated && (
+            <div
+              onPointerDown={handlePointerDown('move')}
+              className="absolute border-2 border-white cursor-move"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+                // Darkens everything outside the crop
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+              }}
+            >
+              <div
+                onPointerDown={handlePointerDown('resize')}
+                aria-label="Resize crop"
+                className="absolute right-0 bottom-0 w-3 h-3 bg-white cursor-nwse-resize"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+        <select
+          value={preset.id}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          aria-label="Crop preset"
+          className="bg-white border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          {CROP_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+        <button onClick={() => handleRotate(-90)} title="Rotate left" className={toolButtonClass}>⟲</button>
+        <button onClick={() => handleRotate(90)} title="Rotate right" className={toolButtonClass}>⟳</button>
+        <button onClick={() => setDraft({ ...draft, flipH: !draft.flipH })} title="Flip horizontally" className={toolButtonClass}>⇋</button>
+        <button onClick={() => setDraft({ ...draft, flipV: !draft.flipV })} title="Flip vertically" className={toolButtonClass}>⇵</button>
+        <button
+          onClick={handleSmartCrop}
+          disabled={!preset.aspect || isSuggesting}
+          title={preset.aspect ? 'Centre the crop on the most detailed part of the image' : 'Pick a preset first'}
+          className={toolButtonClass}
+        >
+          {isSuggesting ? 'Finding…' : 'Smart crop'}
+        </button>
+        <button onClick={() => setDraft(IDENTITY_TRANSFORM)} className="text-gray-500 hover:text-gray-700 font-medium px-1">
+          Reset
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mt-2 text-xs">
+        <span className="flex-1 text-gray-500">
+          {outputSize && `${outputSize.width}×${outputSize.height}px`}
+          {draft.outputWidth && outputSize && outputSize.width < draft.outputWidth && (
+            <span className="text-amber-700"> · smaller than the {draft.outputWidth}px the preset needs</span>
+          )}
+        </span>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 font-medium px-1">
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply(isIdentityTransform(draft) ? null : draft)}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold px-3 py-1 rounded-md"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ExifPolicy, OptimizedImage } from '../types.ts';
+import { describeExifEntry, EXIF_POLICIES, filterExif, getGpsCoordinates } from '../services/exifService.ts';
+
+interface Props {
+  image: OptimizedImage;
+  onPolicyChange: (policy: ExifPolicy) => void;
+}
+
+export const ExifPanel: React.FC<Props> = ({ image, onPolicyChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { exif } = image;
+
+  if (!exif) {
+    return (
+      <p className="text-xs text-gray-400">No EXIF data in the original file.</p>
+    );
+  }
+
+  const kept = new Set(filterExif(exif, image.exifPolicy));
+  const gps = exif.hasGps ? getGpsCoordinates(exif) : null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      {exif.hasGps && (
+        <div className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-md px-3 py-2 mb-3 font-medium">
+          ⚠ This photo contains GPS location data
+          {gps && <span className="font-mono font-normal"> ({gps.latitude.toFixed(5)}, {gps.longitude.toFixed(5)})</span>}.
+          It is never written to exported files.
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm font-medium text-gray-700 hover:text-indigo-700"
+        >
+          {expanded ? '▾' : '▸'} EXIF ({exif.entries.length} tags, {kept.size} kept)
+        </button>
+        <select
+          value={image.exifPolicy}
+          onChange={(e) => onPolicyChange(e.target.value as ExifPolicy)}
+          className="text-xs bg-white border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          {EXIF_POLICIES.map(p => (
+            <option key={p.value} value={p.value}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {expanded && (
+        <table className="w-full mt-2 text-xs">
+          <tbody className="divide-y divide-gray-100">
+            {exif.entries.map((entry) => {
+              const { name, value } = describeExifEntry(entry);
+              return (
+                <tr key={`${entry.ifd}-${entry.tag}`} className={kept.has(entry) ? 'text-gray-700' : 'text-gray-400 line-through'}>
+                  <td className="py-1 pr-2 whitespace-nowrap">{name}</td>
+                  <td className="py-1 font-mono break-all">{value}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
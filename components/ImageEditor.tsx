@@ -1,50 +1,155 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { OptimizedImage, ImageMetadata } from '../types.ts';
-import { formatBytes, slugify } from '../services/compressionService.ts';
-import { generateImageMetadata } from '../services/geminiService.ts';
+import { OptimizedImage, CompressionProfile, LocalizedMetadata, OutputFormat, CompressionSettings, SvgMode, EmbedSettings, AiSettings, ProjectContext, KeywordMatch, LintResult } from '../types.ts';
+import { formatBytes, slugify, getExtension, getFormatLabel, supportsAlpha, OUTPUT_FORMATS } from '../services/compressionService.ts';
+import { getProvider, isMissingApiKey } from '../services/metadataService.ts';
+import { downloadBlob } from '../services/downloadService.ts';
+import { embedMetadata } from '../services/embedService.ts';
+import { getKeywordCoverage } from '../services/keywordService.ts';
+import { getLocaleLabel } from '../services/localeService.ts';
+import { ResponsiveVariants } from './ResponsiveVariants.tsx';
+import { ExifPanel } from './ExifPanel.tsx';
+import { SeoScoreBadge } from './SeoScoreBadge.tsx';
+import { CompareView } from './CompareView.tsx';
+import { CropEditor } from './CropEditor.tsx';
+import { describeProfileSize } from '../services/profileService.ts';
 
 interface Props {
   image: OptimizedImage;
+  exportName: string; // Base file name in the batch export, numbered when several images share a slug
   onUpdate: (id: string, updates: Partial<OptimizedImage>) => void;
-  onQualityChange: (id: string, quality: number) => void;
+  supportedFormats: Partial<Record<OutputFormat, boolean>>;
+  embedSettings: EmbedSettings;
+  aiSettings: AiSettings;
+  projectContext: ProjectContext;
+  lint: LintResult;
+  minSsim: number;
+  smartFloor: number; // Default SSIM floor when switching to smart quality
+  watermarkEnabled: boolean; // The project adds a watermark
+  profiles: CompressionProfile[];
+  apiKey: string;
+  onOpenSettings: () => void;
+  onRecompress: (id: string, settings: Partial<CompressionSettings>) => void;
+  onApplyProfile: (id: string, profileId: string) => void;
+  onGenerateMetadata: (id: string) => Promise<void>;
+  onCancel: (id: string) => void;
   onRemove: (id: string) => void;
 }
 
-export const ImageEditor: React.FC<Props> = ({ image, onUpdate, onQualityChange, onRemove }) => {
+type CompressionMode = 'quality' | 'target' | 'smart';
+
+const COMPRESSION_MODES: { mode: CompressionMode; label: string }[] = [
+  { mode: 'quality', label: 'Quality' },
+  { mode: 'target', label: 'Target Size' },
+  { mode: 'smart', label: 'Smart' }
+];
+
+const SVG_MODES: { mode: SvgMode; label: string }[] = [
+  { mode: 'optimize', label: 'Keep as SVG' },
+  { mode: 'rasterize', label: 'Rasterize' }
+];
+
+const EMPTY_LOCALIZED: LocalizedMetadata = { title: '', altText: '', caption: '', fileName: '' };
+
+const COVERAGE_STYLES: Record<KeywordMatch, { icon: string; className: string; hint: string }> = {
+  exact: { icon: '✓', className: 'bg-green-50 text-green-700 border-green-200', hint: 'contains the keyphrase' },
+  partial: { icon: '~', className: 'bg-amber-50 text-amber-700 border-amber-200', hint: 'has the keyphrase words, but not together' },
+  missing: { icon: '✗', className: 'bg-gray-50 text-gray-500 border-gray-200', hint: 'does not mention the keyphrase' }
+};
+
+// Lint results apply to the primary language, so they're hidden on translation tabs
+const FieldIssues: React.FC<{ lint: LintResult; field: keyof LocalizedMetadata }> = ({ lint, field }) => {
+  const issues = lint.issues.filter(issue => issue.field === field);
+  if (issues.length === 0) return null;
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {issues.map(issue => (
+        <li key={issue.ruleId} className={`text-xs ${issue.level === 'error' ? 'text-red-700' : 'text-amber-700'}`}>
+          {issue.level === 'error' ? '✗' : '⚠'} {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const ImageEditor: React.FC<Props> = ({
+  image,
+  exportName,
+  supportedFormats,
+  embedSettings,
+  aiSettings,
+  projectContext,
+  lint,
+  minSsim,
+  smartFloor,
+  watermarkEnabled,
+  profiles,
+  apiKey,
+  onOpenSettings,
+  onUpdate,
+  onRecompress,
+  onApplyProfile,
+  onGenerateMetadata,
+  onCancel,
+  onRemove
+}) => {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [showKeyHint, setShowKeyHint] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isCropping, setIsCropping] = useState(false);
+  const [activeLocale, setActiveLocale] = useState<string | null>(null); // null = primary language
   const [localQuality, setLocalQuality] = useState(image.currentQuality);
+  const [targetKb, setTargetKb] = useState(image.targetSize ? Math.round(image.targetSize / 1024) : 150);
+  const [rasterWidth, setRasterWidth] = useState(image.rasterWidth);
+  const [floorInput, setFloorInput] = useState(image.ssimFloor ?? smartFloor);
+  const mode: CompressionMode = image.ssimFloor !== null ? 'smart' : image.targetSize !== null ? 'target' : 'quality';
+  const isBusy = image.status === 'pending' || image.status === 'compressing';
+
+  // Hide the missing-key hint once a key has been entered
+  useEffect(() => {
+    setShowKeyHint(false);
+  }, [apiKey]);
 
   // Sync local quality if image changes externally
   useEffect(() => {
     setLocalQuality(image.currentQuality);
   }, [image.currentQuality]);
 
+  // Tabs for the project's translation locales plus any the image already has
+  const locales = Array.from(new Set([...projectContext.translationLocales, ...Object.keys(image.metadata.translations)]))
+    .filter(code => code !== projectContext.language);
+  const currentLocale = activeLocale && locales.includes(activeLocale) ? activeLocale : null;
+  const fields: LocalizedMetadata = currentLocale
+    ? image.metadata.translations[currentLocale] || EMPTY_LOCALIZED
+    : image.metadata;
+
   // Handle Input Changes
-  const handleMetadataChange = (key: keyof ImageMetadata, value: string) => {
-    const newMetadata = { ...image.metadata, [key]: value };
-    onUpdate(image.id, { metadata: newMetadata });
+  const handleMetadataChange = (key: keyof LocalizedMetadata, value: string) => {
+    const newMetadata = currentLocale
+      ? { ...image.metadata, translations: { ...image.metadata.translations, [currentLocale]: { ...fields, [key]: value } } }
+      : { ...image.metadata, [key]: value };
+    onUpdate(image.id, { metadata: newMetadata, metadataEdited: true });
   };
 
   const handleTitleBlur = () => {
     // When leaving title field, suggest a filename if one doesn't exist or if it looks generic
-    if (image.metadata.title && (!image.metadata.fileName || image.metadata.fileName.startsWith('image'))) {
-       const newFileName = slugify(image.metadata.title);
+    if (fields.title && (!fields.fileName || fields.fileName.startsWith('image'))) {
+       const newFileName = slugify(fields.title, currentLocale || projectContext.language);
        handleMetadataChange('fileName', newFileName);
     }
   };
 
   const handleGenerateSEO = async () => {
+    if (isMissingApiKey(aiSettings, apiKey)) {
+      setShowKeyHint(true);
+      return;
+    }
+    setShowKeyHint(false);
     setIsGenerating(true);
-    onUpdate(image.id, { status: 'analyzing' });
-    
     try {
-      const generated = await generateImageMetadata(image.originalFile);
-      onUpdate(image.id, { 
-        metadata: generated,
-        status: 'done' 
-      });
+      await onGenerateMetadata(image.id);
     } catch (e) {
-      onUpdate(image.id, { status: 'done' }); // Return to done state even if AI fails
+      // The error is shown on the card; the metadata is left untouched
+      console.error("Metadata Generation Failed:", e);
     } finally {
       setIsGenerating(false);
     }
@@ -53,31 +158,71 @@ export const ImageEditor: React.FC<Props> = ({ image, onUpdate, onQualityChange,
   // Handle slider release to trigger recompression
   const handleQualityRelease = () => {
     if (localQuality !== image.currentQuality) {
-      onQualityChange(image.id, localQuality);
+      onRecompress(image.id, { currentQuality: localQuality, ssimFloor: null });
+    }
+  };
+
+  const handleFormatChange = (format: OutputFormat) => {
+    onRecompress(image.id, { outputFormat: format });
+  };
+
+  const handleModeChange = (next: CompressionMode) => {
+    if (next === mode) return;
+    onRecompress(image.id, {
+      targetSize: next === 'target' ? targetKb * 1024 : null,
+      ssimFloor: next === 'smart' ? floorInput : null
+    });
+  };
+
+  const handleRasterWidthApply = () => {
+    if (rasterWidth > 0 && rasterWidth !== image.rasterWidth) {
+      onRecompress(image.id, { rasterWidth });
+    }
+  };
+
+  const handleFloorApply = () => {
+    if (floorInput > 0 && floorInput < 1 && floorInput !== image.ssimFloor) {
+      onRecompress(image.id, { ssimFloor: floorInput });
     }
   };
 
-  const handleDownload = () => {
+  const handleTargetApply = () => {
+    if (targetKb > 0 && targetKb * 1024 !== image.targetSize) {
+      onRecompress(image.id, { targetSize: targetKb * 1024 });
+    }
+  };
+
+  // The encoder may have fallen back to another format if the browser lacks support
+  const encodedFormat = image.compressedBlob?.type || image.outputFormat;
+  const extension = getExtension(encodedFormat);
+  const isFallback = !!image.compressedBlob && encodedFormat !== image.outputFormat;
+  const isLossless = OUTPUT_FORMATS.some(f => f.mime === encodedFormat && f.lossless);
+
+  const handleDownload = async () => {
     if (!image.compressedBlob) return;
     
-    // Create download link
-    const url = URL.createObjectURL(image.compressedBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    
-    // Ensure filename ends in .jpg
+    // Ensure filename ends in the extension of the encoded format
     let finalName = image.metadata.fileName || 'optimized-image';
-    if (!finalName.toLowerCase().endsWith('.jpg') && !finalName.toLowerCase().endsWith('.jpeg')) {
-        finalName += '.jpg';
+    if (!finalName.toLowerCase().endsWith(`.${extension}`)) {
+        finalName += `.${extension}`;
     }
     
-    link.download = finalName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    try {
+      const blob = await embedMetadata(image.compressedBlob, image, embedSettings);
+      downloadBlob(blob, finalName);
+    } catch (e) {
+      console.error("Metadata embedding failed, downloading without it", e);
+      downloadBlob(image.compressedBlob, finalName);
+    }
   };
 
+  const coverage = projectContext.focusKeyphrase
+    ? getKeywordCoverage(image.metadata, projectContext.focusKeyphrase, projectContext.language)
+    : null;
+
+  const showCompare = isComparing && !!image.compressedBlob && !isBusy;
+  const belowQualityBar = !!image.qualityScore && minSsim > 0 && image.qualityScore.ssim < minSsim;
+
   // Calculate savings
   const savings = image.originalSize > 0 
     ? Math.round(((image.originalSize - image.compressedSize) / image.originalSize) * 100) 
@@ -89,15 +234,56 @@ export const ImageEditor: React.FC<Props> = ({ image, onUpdate, onQualityChange,
         
         {/* Left: Preview & Stats */}
         <div className="w-full lg:w-1/3 flex flex-col items-center">
+          {isCropping ? (
+            <CropEditor
+              image={image}
+              onApply={(transform) => {
+                setIsCropping(false);
+                onRecompress(image.id, { transform });
+              }}
+              onClose={() => setIsCropping(false)}
+            />
+          ) : showCompare ? (
+            <CompareView image={image} onClose={() => setIsComparing(false)} />
+          ) : (
           <div className="relative w-full aspect-[4/3] bg-gray-100 rounded-lg overflow-hidden mb-4 border border-gray-200">
              <img 
                src={image.originalPreview} 
                alt="Preview" 
                className="w-full h-full object-contain"
              />
-             {image.status === 'compressing' && (
-                <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-white font-medium">
-                  Compressing...
+             {isBusy && (
+                <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center gap-2 text-white font-medium">
+                  {image.status === 'pending' ? 'Queued...' : 'Compressing...'}
+                  <button
+                    onClick={() => onCancel(image.id)}
+                    className="text-xs bg-white/20 hover:bg-white/30 px-3 py-1 rounded-md transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+             )}
+             {image.status === 'error' && (
+                <div className="absolute inset-0 bg-red-900/60 flex flex-col items-center justify-center gap-2 text-white font-medium p-4 text-center">
+                  Compression failed
+                  {image.compressionError && <span className="text-xs font-normal">{image.compressionError}</span>}
+                  <button
+                    onClick={() => onRecompress(image.id, {})}
+                    className="text-xs bg-white/20 hover:bg-white/30 px-3 py-1 rounded-md transition-colors"
+                  >
+                    Retry
+                  </button>
+                </div>
+             )}
+             {image.status === 'cancelled' && (
+                <div className="absolute inset-0 bg-gray-900/50 flex flex-col items-center justify-center gap-2 text-white font-medium">
+                  Cancelled
+                  <button
+                    onClick={() => onRecompress(image.id, {})}
+                    className="text-xs bg-white/20 hover:bg-white/30 px-3 py-1 rounded-md transition-colors"
+                  >
+                    Retry
+                  </button>
                 </div>
              )}
               {image.status === 'analyzing' && (
@@ -105,7 +291,24 @@ export const ImageEditor: React.FC<Props> = ({ image, onUpdate, onQualityChange,
                   AI Analyzing...
                 </div>
              )}
+             {image.compressedBlob && !isBusy && (
+                <button
+                  onClick={() => setIsComparing(true)}
+                  className="absolute bottom-2 right-2 text-xs bg-black/60 hover:bg-black/75 text-white px-2 py-1 rounded-md transition-colors"
+                >
+                  Compare
+                </button>
+             )}
+             {!isBusy && image.svgMode !== 'optimize' && (
+                <button
+                  onClick={() => setIsCropping(true)}
+                  className="absolute bottom-2 left-2 text-xs bg-black/60 hover:bg-black/75 text-white px-2 py-1 rounded-md transition-colors"
+                >
+                  {image.transform ? 'Edit crop' : 'Crop & rotate'}
+                </button>
+             )}
           </div>
+          )}
 
           <div className="w-full grid grid-cols-2 gap-4 text-sm mb-4">
             <div className="bg-gray-50 p-3 rounded-lg text-center">
@@ -119,40 +322,250 @@ export const ImageEditor: React.FC<Props> = ({ image, onUpdate, onQualityChange,
           </div>
 
           <div className="w-full bg-gray-50 p-4 rounded-lg border border-gray-100 mb-2">
-             <div className="flex justify-between items-center mb-2">
-               <label htmlFor={`quality-${image.id}`} className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
-                 Quality: {Math.round(localQuality * 100)}%
-               </label>
-             </div>
-             <input 
-                id={`quality-${image.id}`}
-                type="range" 
-                min="0.1" 
-                max="1.0" 
-                step="0.05"
-                value={localQuality}
-                onChange={(e) => setLocalQuality(parseFloat(e.target.value))}
-                onMouseUp={handleQualityRelease}
-                onTouchEnd={handleQualityRelease}
-                disabled={image.status === 'compressing'}
-                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-              />
+             {image.svgMode && (
+               <>
+                 <div className="flex rounded-md border border-gray-200 overflow-hidden mb-3 text-xs font-semibold">
+                   {SVG_MODES.map(m => (
+                     <button
+                       key={m.mode}
+                       onClick={() => m.mode !== image.svgMode && onRecompress(image.id, { svgMode: m.mode })}
+                       disabled={isBusy}
+                       className={`flex-1 py-1.5 transition-colors ${image.svgMode === m.mode ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                     >
+                       {m.label}
+                     </button>
+                   ))}
+                 </div>
+                 {image.svgMode === 'optimize' ? (
+                   <p className="text-xs text-gray-500">
+                     Minified with comments and editor metadata removed. The title and alt text are written into the file as
+                     &lt;title&gt; and &lt;desc&gt; on download.
+                   </p>
+                 ) : (
+                   <div className="flex justify-between items-center mb-3">
+                     <label htmlFor={`raster-${image.id}`} className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                       Width (px)
+                     </label>
+                     <input
+                       id={`raster-${image.id}`}
+                       type="number"
+                       min="16"
+                       value={rasterWidth}
+                       onChange={(e) => setRasterWidth(parseInt(e.target.value, 10) || 0)}
+                       onBlur={handleRasterWidthApply}
+                       onKeyDown={(e) => e.key === 'Enter' && handleRasterWidthApply()}
+                       disabled={isBusy}
+                       className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                     />
+                   </div>
+                 )}
+               </>
+             )}
+             {image.svgMode !== 'optimize' && (
+               <>
+               <div className="flex justify-between items-center mb-3">
+                 <label htmlFor={`profile-${image.id}`} className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                   Profile
+                 </label>
+                 <select
+                   id={`profile-${image.id}`}
+                   value={image.profileId ?? ''}
+                   onChange={(e) => onApplyProfile(image.id, e.target.value)}
+                   disabled={isBusy}
+                   className="text-sm bg-white border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none max-w-[60%]"
+                 >
+                   {/* Images from before profiles, or whose profile has since been deleted */}
+                   {!profiles.some(p => p.id === image.profileId) && <option value="" disabled>Custom</option>}
+                   {profiles.map(p => (
+                     <option key={p.id} value={p.id}>{p.name} ({describeProfileSize(p)})</option>
+                   ))}
+                 </select>
+               </div>
+               <div className="flex justify-between items-center mb-3">
+                 <label htmlFor={`format-${image.id}`} className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                   Format
+                 </label>
+                 <select
+                   id={`format-${image.id}`}
+                   value={image.outputFormat}
+                   onChange={(e) => handleFormatChange(e.target.value as OutputFormat)}
+                   disabled={isBusy}
+                   className="text-sm bg-white border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none"
+                 >
+                   {OUTPUT_FORMATS.map(f => (
+                     <option key={f.mime} value={f.mime}>
+                       {f.label}{supportedFormats[f.mime] === false ? ' (unsupported)' : ''}
+                     </option>
+                   ))}
+                 </select>
+               </div>
+               {isFallback && (
+                 <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-md px-2 py-1 mb-3">
+                   This browser can't encode {getFormatLabel(image.outputFormat)}. Saved as {getFormatLabel(encodedFormat)} instead.
+                 </p>
+               )}
+               {image.animated && (
+                 <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-md px-2 py-1 mb-3">
+                   This image is animated. Only the first frame is kept; use the original file to keep the animation.
+                 </p>
+               )}
+               {watermarkEnabled && (
+                 <label className="flex items-center gap-2 text-xs font-semibold text-gray-600 uppercase tracking-wider mb-3 cursor-pointer">
+                   <input
+                     type="checkbox"
+                     checked={!image.watermarkOptOut}
+                     onChange={(e) => onRecompress(image.id, { watermarkOptOut: !e.target.checked })}
+                     disabled={isBusy}
+                     className="accent-indigo-600"
+                   />
+                   Project watermark
+                 </label>
+               )}
+               {image.hasAlpha && !supportsAlpha(encodedFormat) && (
+                 <div className="flex justify-between items-center mb-3">
+                   <label htmlFor={`matte-${image.id}`} className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                     Background
+                     <span className="block normal-case font-normal tracking-normal text-gray-500">{getFormatLabel(encodedFormat)} has no transparency</span>
+                   </label>
+                   <input
+                     id={`matte-${image.id}`}
+                     type="color"
+                     value={image.matteColor}
+                     // Each pick replaces the job still running for the previous one
+                     onChange={(e) => onRecompress(image.id, { matteColor: e.target.value })}
+                     disabled={isBusy}
+                     className="w-10 h-8 border border-gray-200 rounded-md cursor-pointer"
+                   />
+                 </div>
+               )}
+               <div className="flex rounded-md border border-gray-200 overflow-hidden mb-3 text-xs font-semibold">
+                 {COMPRESSION_MODES.map(m => (
+                   <button
+                     key={m.mode}
+                     onClick={() => handleModeChange(m.mode)}
+                     disabled={isBusy}
+                     className={`flex-1 py-1.5 transition-colors ${mode === m.mode ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                   >
+                     {m.label}
+                   </button>
+                 ))}
+               </div>
+               {mode === 'smart' && (
+                 <div className="mb-3">
+                   <label htmlFor={`floor-${image.id}`} className="block text-xs font-semibold text-gray-600 uppercase tracking-wider mb-2">
+                     Minimum Similarity (SSIM)
+                   </label>
+                   <input
+                     id={`floor-${image.id}`}
+                     type="number"
+                     min="0.5"
+                     max="0.99"
+                     step="0.01"
+                     value={floorInput}
+                     onChange={(e) => setFloorInput(parseFloat(e.target.value) || 0)}
+                     onBlur={handleFloorApply}
+                     onKeyDown={(e) => e.key === 'Enter' && handleFloorApply()}
+                     disabled={isBusy}
+                     className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                   />
+                   {image.targetMet === false && (
+                     <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1 mt-2">
+                       Even {Math.round(image.currentQuality * 100)}% quality scores below {floorInput}. This is the closest result found.
+                     </p>
+                   )}
+                   <p className="text-xs text-gray-500 mt-2">
+                     Picks the smallest file that still looks like the original. Moving the slider switches back to manual quality.
+                   </p>
+                 </div>
+               )}
+               {mode === 'target' ? (
+                 <div>
+                   <label htmlFor={`target-${image.id}`} className="block text-xs font-semibold text-gray-600 uppercase tracking-wider mb-2">
+                     Max File Size (KB)
+                   </label>
+                   <input
+                     id={`target-${image.id}`}
+                     type="number"
+                     min="1"
+                     value={targetKb}
+                     onChange={(e) => setTargetKb(parseInt(e.target.value, 10) || 0)}
+                     onBlur={handleTargetApply}
+                     onKeyDown={(e) => e.key === 'Enter' && handleTargetApply()}
+                     disabled={isBusy}
+                     className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                   />
+                   {image.status === 'done' && image.compressedBlob && (
+                     <p className="text-xs text-gray-500 mt-2">
+                       Chose {Math.round(image.currentQuality * 100)}% quality at {image.width}×{image.height}px
+                     </p>
+                   )}
+                   {image.targetMet === false && (
+                     <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1 mt-2">
+                       Could not get under {targetKb} KB. This is the smallest result found.
+                     </p>
+                   )}
+                 </div>
+               ) : (
+                 <>
+                   <div className="flex justify-between items-center mb-2">
+                     <label htmlFor={`quality-${image.id}`} className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                       Quality: {Math.round(localQuality * 100)}%
+                     </label>
+                   </div>
+                   <input 
+                      id={`quality-${image.id}`}
+                      type="range" 
+                      min="0.1" 
+                      max="1.0" 
+                      step="0.05"
+                      value={localQuality}
+                      onChange={(e) => setLocalQuality(parseFloat(e.target.value))}
+                      onMouseUp={handleQualityRelease}
+                      onTouchEnd={handleQualityRelease}
+                      disabled={isBusy}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                   {isLossless && (
+                     <p className="text-xs text-gray-500 mt-2">
+                       {getFormatLabel(encodedFormat)} is lossless, so quality has no effect. Only resizing reduces the file size.
+                     </p>
+                   )}
+                 </>
+               )}
+               </>
+             )}
           </div>
           
-          <div className="mt-1 text-center">
+          <div className="mt-1 flex flex-wrap justify-center gap-2">
              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                 {savings}% Size Reduction
              </span>
+             {image.qualityScore && (
+               <span
+                 title={`SSIM ${image.qualityScore.ssim.toFixed(4)} · PSNR ${image.qualityScore.psnr.toFixed(1)} dB`}
+                 className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${belowQualityBar ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}`}
+               >
+                 SSIM {image.qualityScore.ssim.toFixed(3)} · {image.qualityScore.psnr.toFixed(1)} dB
+               </span>
+             )}
           </div>
+          {belowQualityBar && (
+            <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-md px-2 py-1 mt-2 text-center">
+              Below the team minimum SSIM of {minSsim}. Raise the quality or size budget.
+            </p>
+          )}
         </div>
 
         {/* Right: Metadata Editing */}
         <div className="w-full lg:w-2/3 flex flex-col">
           <div className="flex justify-between items-center mb-4">
-             <h3 className="text-lg font-bold text-gray-800">Image Details</h3>
+             <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+               Image Details
+               <SeoScoreBadge score={lint.score} />
+             </h3>
              <button 
                onClick={handleGenerateSEO}
-               disabled={isGenerating || image.status === 'compressing'}
+               disabled={isGenerating || isBusy || image.status === 'analyzing'}
                className="flex items-center gap-2 text-sm bg-indigo-50 text-indigo-700 px-3 py-1.5 rounded-md hover:bg-indigo-100 transition-colors font-medium"
              >
                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -162,17 +575,86 @@ export const ImageEditor: React.FC<Props> = ({ image, onUpdate, onQualityChange,
              </button>
           </div>
 
+          {showKeyHint && (
+            <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2 mb-4">
+              {getProvider(aiSettings.provider).label} needs an API key to generate metadata.{' '}
+              <button onClick={onOpenSettings} className="font-semibold underline hover:text-amber-900">
+                Add your key in Settings
+              </button>
+            </div>
+          )}
+
+          {image.aiError && (
+            <div className="flex items-start justify-between gap-3 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md px-3 py-2 mb-4">
+              <span>
+                {image.aiError.message}
+                {image.aiError.kind === 'invalid-key' && (
+                  <>
+                    {' '}
+                    <button onClick={onOpenSettings} className="font-semibold underline hover:text-red-900">
+                      Open Settings
+                    </button>
+                  </>
+                )}
+              </span>
+              <button
+                onClick={() => onUpdate(image.id, { aiError: null })}
+                className="text-red-400 hover:text-red-600 leading-none"
+                aria-label="Dismiss error"
+              >
+                ×
+              </button>
+            </div>
+          )}
+
+          {coverage && (
+            <div className="flex flex-wrap items-center gap-2 text-xs mb-4">
+              <span className="text-gray-500">Keyphrase "{projectContext.focusKeyphrase}":</span>
+              {([['title', 'Title'], ['altText', 'Alt'], ['fileName', 'File name']] as const).map(([field, label]) => {
+                const style = COVERAGE_STYLES[coverage[field]];
+                return (
+                  <span
+                    key={field}
+                    title={`${label} ${style.hint}`}
+                    className={`px-2 py-0.5 rounded-full border font-medium ${style.className}`}
+                  >
+                    {style.icon} {label}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+
+          {locales.length > 0 && (
+            <div className="flex gap-1 border-b border-gray-200 mb-4 text-sm">
+              {[null, ...locales].map(code => {
+                const missing = code !== null && !image.metadata.translations[code]?.title;
+                return (
+                  <button
+                    key={code ?? 'primary'}
+                    onClick={() => setActiveLocale(code)}
+                    className={`px-3 py-1.5 -mb-px border-b-2 font-medium transition-colors ${currentLocale === code ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {getLocaleLabel(code ?? projectContext.language)}
+                    {missing && <span className="ml-1 text-amber-500" title="Not filled in yet">•</span>}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           <div className="space-y-4 flex-grow">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Image Title</label>
               <input 
                 type="text" 
-                value={image.metadata.title}
+                value={fields.title}
                 onChange={(e) => handleMetadataChange('title', e.target.value)}
                 onBlur={handleTitleBlur}
                 placeholder="e.g., Happy Dog in Park"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow"
               />
+              {!currentLocale && <FieldIssues lint={lint} field="title" />}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -181,38 +663,56 @@ export const ImageEditor: React.FC<Props> = ({ image, onUpdate, onQualityChange,
                 <div className="flex">
                   <input 
                     type="text" 
-                    value={image.metadata.fileName}
+                    value={fields.fileName}
                     onChange={(e) => handleMetadataChange('fileName', e.target.value)}
                     placeholder="happy-dog-park"
                     className="w-full px-3 py-2 border border-gray-300 rounded-l-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow bg-gray-50 text-gray-600 font-mono text-sm"
                   />
                   <span className="inline-flex items-center px-3 rounded-r-md border border-l-0 border-gray-300 bg-gray-100 text-gray-500 text-sm">
-                    .jpg
+                    .{extension}
                   </span>
                 </div>
+                {!currentLocale && <FieldIssues lint={lint} field="fileName" />}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Alt Text</label>
                 <input 
                   type="text" 
-                  value={image.metadata.altText}
+                  value={fields.altText}
                   onChange={(e) => handleMetadataChange('altText', e.target.value)}
                   placeholder="e.g., A golden retriever jumping in grass"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow"
                 />
+                {!currentLocale && <FieldIssues lint={lint} field="altText" />}
               </div>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Caption</label>
               <textarea 
-                value={image.metadata.caption}
+                value={fields.caption}
                 onChange={(e) => handleMetadataChange('caption', e.target.value)}
                 rows={2}
                 placeholder="Optional caption for the article..."
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow"
               />
+              {!currentLocale && <FieldIssues lint={lint} field="caption" />}
             </div>
+
+            {/* A vector file already scales to every width */}
+            {image.svgMode !== 'optimize' && (
+              <ResponsiveVariants
+                image={image}
+                exportName={exportName}
+                embedSettings={embedSettings}
+                onToggle={(enabled) => onRecompress(image.id, { generateVariants: enabled })}
+              />
+            )}
+
+            <ExifPanel
+              image={image}
+              onPolicyChange={(policy) => onUpdate(image.id, { exifPolicy: policy })}
+            />
           </div>
 
           <div className="mt-6 flex gap-3 pt-4 border-t border-gray-100">
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { CompressionProfile, ExifPolicy, OutputFormat, ProfileSettings, ResizeMode } from '../types.ts';
+import { OUTPUT_FORMATS } from '../services/compressionService.ts';
+import { EXIF_POLICIES } from '../services/exifService.ts';
+import { downloadBlob } from '../services/downloadService.ts';
+import {
+  DEFAULT_PROFILE_SETTINGS,
+  RESIZE_MODES,
+  createProfileId,
+  describeProfileSize,
+  exportProfiles,
+  mergeProfiles,
+  parseProfiles
+} from '../services/profileService.ts';
+
+interface Props {
+  settings: ProfileSettings;
+  onChange: (settings: ProfileSettings) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow text-sm";
+
+export const ProfileManager: React.FC<Props> = ({ settings, onChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const { profiles, defaultId } = settings;
+  const editing = profiles.find(p => p.id === editingId);
+
+  const updateProfile = (updates: Partial<CompressionProfile>) => {
+    onChange({ ...settings, profiles: profiles.map(p => p.id === editingId ? { ...p, ...updates } : p) });
+  };
+
+  const parseDimension = (value: string) => {
+    const number = parseInt(value, 10);
+    return number > 0 ? number : null;
+  };
+
+  const handleAdd = () => {
+    // Start from the current default so only the differences need changing
+    const base = profiles.find(p => p.id === defaultId) ?? DEFAULT_PROFILE_SETTINGS.profiles[0];
+    const profile = { ...base, id: createProfileId('New profile', profiles), name: 'New profile' };
+    onChange({ ...settings, profiles: [...profiles, profile] });
+    setEditingId(profile.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const remaining = profiles.filter(p => p.id !== id);
+    onChange({ profiles: remaining, defaultId: id === defaultId ? remaining[0].id : defaultId });
+    if (editingId === id) setEditingId(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseProfiles(await file.text());
+      onChange({ ...settings, profiles: mergeProfiles(profiles, imported) });
+      setImportError(null);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportProfiles(profiles)], { type: 'application/json' }), 'compression-profiles.json');
+  };
+
+  return (
+    <div>
+      <div className="divide-y divide-gray-100 mb-3">
+        {profiles.map(profile => (
+          <div key={profile.id} className="flex items-center justify-between gap-3 py-1.5 text-sm text-gray-700">
+            <button
+              onClick={() => setEditingId(editingId === profile.id ? null : profile.id)}
+              className="flex-1 text-left min-w-0 truncate hover:text-indigo-600"
+            >
+              {editingId === profile.id ? '▾' : '▸'} {profile.name}
+              <span className="text-xs text-gray-400 ml-2">{describeProfileSize(profile)}</span>
+              {profile.id === defaultId && <span className="text-xs text-indigo-600 ml-2">Default</span>}
+            </button>
+            <button
+              onClick={() => handleDelete(profile.id)}
+              disabled={profiles.length === 1}
+              className="text-xs text-red-600 hover:text-red-800 font-medium disabled:opacity-40"
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <div className="grid grid-cols-2 gap-3 mb-3 p-3 bg-gray-50 border border-gray-100 rounded-lg">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={editing.name}
+              onChange={(e) => updateProfile({ name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <select
+              value={editing.outputFormat}
+              onChange={(e) => updateProfile({ outputFormat: e.target.value as OutputFormat })}
+              className={inputClass}
+            >
+              {OUTPUT_FORMATS.map(f => <option key={f.mime} value={f.mime}>{f.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Quality: {Math.round(editing.quality * 100)}%</label>
+            <input
+              type="range"
+              min="0.05"
+              max="1"
+              step="0.05"
+              value={editing.quality}
+              onChange={(e) => updateProfile({ quality: parseFloat(e.target.value) })}
+              className="w-full h-2 mt-3 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max width (px)</label>
+            <input
+              type="number"
+              min="1"
+              value={editing.maxWidth ?? ''}
+              placeholder="Original"
+              onChange={(e) => updateProfile({ maxWidth: parseDimension(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max height (px)</label>
+            <input
+              type="number"
+              min="1"
+              value={editing.maxHeight ?? ''}
+              placeholder="No limit"
+              onChange={(e) => updateProfile({ maxHeight: parseDimension(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Resize</label>
+            <select
+              value={editing.resizeMode}
+              onChange={(e) => updateProfile({ resizeMode: e.target.value as ResizeMode })}
+              className={inputClass}
+            >
+              {RESIZE_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+            {editing.resizeMode === 'cover' && (!editing.maxWidth || !editing.maxHeight) && (
+              <p className="text-xs text-amber-700 mt-1">Cropping to fill needs both a max width and height.</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">EXIF</label>
+            <select
+              value={editing.exifPolicy ?? ''}
+              onChange={(e) => updateProfile({ exifPolicy: (e.target.value || null) as ExifPolicy | null })}
+              className={inputClass}
+            >
+              <option value="">Privacy default</option>
+              {EXIF_POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            </select>
+          </div>
+          <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={editing.generateVariants}
+              onChange={(e) => updateProfile({ generateVariants: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            Generate responsive srcset sizes
+          </label>
+          <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={editing.writeMetadata}
+              onChange={(e) => updateProfile({ writeMetadata: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            Embed title, caption and rights
+          </label>
+          <button
+            onClick={() => onChange({ ...settings, defaultId: editing.id })}
+            disabled={editing.id === defaultId}
+            className="col-span-2 text-left text-sm text-indigo-600 hover:text-indigo-800 font-medium disabled:text-gray-400"
+          >
+            {editing.id === defaultId ? 'New images use this profile' : 'Use for new images'}
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <button onClick={handleAdd} className="text-indigo-600 hover:text-indigo-800 font-medium">
+          New profile
+        </button>
+        <label className="text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer">
+          Import…
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+        <button onClick={handleExport} className="text-indigo-600 hover:text-indigo-800 font-medium">
+          Export
+        </button>
+      </div>
+      {importError && <p className="text-xs text-red-600 mt-2">{importError}</p>}
+      <p className="text-xs text-gray-500 mt-2">
+        Share the exported file so the whole team compresses with the same settings. Imported profiles replace ones with the same id.
+      </p>
+    </div>
+  );
+};
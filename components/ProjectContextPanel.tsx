@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { ProjectContext } from '../types.ts';
+import { LOCALES } from '../services/localeService.ts';
+
+interface Props {
+  context: ProjectContext;
+  onChange: (context: ProjectContext) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow text-sm";
+
+export const ProjectContextPanel: React.FC<Props> = ({ context, onChange }) => {
+  const [expanded, setExpanded] = useState(!!context.articleTitle || !!context.focusKeyphrase);
+  // Edited as free text so typing a trailing comma isn't swallowed
+  const [keywordsText, setKeywordsText] = useState(context.secondaryKeywords.join(', '));
+
+  const update = (updates: Partial<ProjectContext>) => {
+    onChange({ ...context, ...updates });
+  };
+
+  const toggleTranslation = (code: string, enabled: boolean) => {
+    const locales = context.translationLocales.filter(c => c !== code);
+    update({ translationLocales: enabled ? [...locales, code] : locales });
+  };
+
+  const handleKeywordsChange = (text: string) => {
+    setKeywordsText(text);
+    update({ secondaryKeywords: text.split(',').map(k => k.trim()).filter(Boolean) });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 mb-6 shadow-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="text-sm font-bold text-gray-800">
+          {expanded ? '▾' : '▸'} Article context
+        </span>
+        {!expanded && context.focusKeyphrase && (
+          <span className="text-xs text-gray-500 truncate ml-3">
+            Keyphrase: <span className="font-medium text-gray-700">{context.focusKeyphrase}</span>
+          </span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Article title</label>
+            <input
+              type="text"
+              value={context.articleTitle}
+              onChange={(e) => update({ articleTitle: e.target.value })}
+              placeholder="e.g., 10 Easy Hikes Near Denver"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Focus keyphrase</label>
+            <input
+              type="text"
+              value={context.focusKeyphrase}
+              onChange={(e) => update({ focusKeyphrase: e.target.value })}
+              placeholder="e.g., denver hikes"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Secondary keywords</label>
+            <input
+              type="text"
+              value={keywordsText}
+              onChange={(e) => handleKeywordsChange(e.target.value)}
+              placeholder="Comma-separated"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tone</label>
+            <input
+              type="text"
+              value={context.tone}
+              onChange={(e) => update({ tone: e.target.value })}
+              placeholder="e.g., friendly, professional"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Brand name</label>
+            <input
+              type="text"
+              value={context.brandName}
+              onChange={(e) => update({ brandName: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Primary language</label>
+            <select
+              value={context.language}
+              // The primary language can't also be a translation
+              onChange={(e) => update({
+                language: e.target.value,
+                translationLocales: context.translationLocales.filter(c => c !== e.target.value)
+              })}
+              className={inputClass}
+            >
+              {LOCALES.map(l => (
+                <option key={l.code} value={l.code}>{l.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <span className="block text-sm font-medium text-gray-700 mb-1">Also generate in</span>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {LOCALES.filter(l => l.code !== context.language).map(l => (
+                <label key={l.code} className="flex items-center gap-1 text-sm text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={context.translationLocales.includes(l.code)}
+                    onChange={(e) => toggleTranslation(l.code, e.target.checked)}
+                    className="accent-indigo-600"
+                  />
+                  {l.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { EmbedSettings, ImageVariant, OptimizedImage } from '../types.ts';
+import { formatBytes, SRCSET_WIDTHS } from '../services/compressionService.ts';
+import { buildImgSnippet, buildPictureSnippet } from '../services/markupService.ts';
+import { publishImage } from '../services/exportService.ts';
+import { downloadBlob } from '../services/downloadService.ts';
+import { embedMetadata } from '../services/embedService.ts';
+
+interface Props {
+  image: OptimizedImage;
+  exportName: string; // Base file name in the batch export, so snippets match the downloaded files
+  embedSettings: EmbedSettings;
+  onToggle: (enabled: boolean) => void;
+}
+
+export const ResponsiveVariants: React.FC<Props> = ({ image, exportName, embedSettings, onToggle }) => {
+  const [snippetType, setSnippetType] = useState<'img' | 'picture'>('img');
+  const [copied, setCopied] = useState(false);
+
+  const published = publishImage(image, exportName, '');
+  const snippet = snippetType === 'img' ? buildImgSnippet(published) : buildPictureSnippet(published);
+
+  const handleDownload = async (variant: ImageVariant, name: string) => {
+    const blob = await embedMetadata(variant.blob, image, embedSettings, variant);
+    downloadBlob(blob, name);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Clipboard write failed", e);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={image.generateVariants}
+          onChange={(e) => onToggle(e.target.checked)}
+          disabled={image.status === 'pending' || image.status === 'compressing'}
+          className="accent-indigo-600"
+        />
+        Responsive variants (srcset)
+        <span className="text-xs text-gray-400 font-normal">{SRCSET_WIDTHS.join(' / ')}px</span>
+      </label>
+
+      {image.generateVariants && image.variants.length > 0 && (
+        <div className="mt-3 space-y-3">
+          <ul className="divide-y divide-gray-100 text-sm">
+            {image.variants.map((variant, i) => {
+              const name = published.variantUrls[i];
+              return (
+                <li key={variant.width} className="flex items-center justify-between py-1.5 gap-2">
+                  <span className="font-mono text-xs text-gray-600 truncate">{name}</span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {variant.width}×{variant.height} · {formatBytes(variant.blob.size)}
+                  </span>
+                  <button
+                    onClick={() => handleDownload(variant, name)}
+                    className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+                  >
+                    Download
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex gap-1 text-xs">
+                {(['img', 'picture'] as const).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => setSnippetType(type)}
+                    className={`px-2 py-0.5 rounded font-mono ${snippetType === type ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:bg-gray-100'}`}
+                  >
+                    &lt;{type}&gt;
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleCopy}
+                className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+              >
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <pre className="text-xs bg-gray-900 text-gray-100 rounded-md p-2 overflow-x-auto whitespace-pre-wrap break-all">
+              {snippet}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
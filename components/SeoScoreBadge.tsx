@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface Props {
+  score: number;
+  label?: string;
+}
+
+const scoreClass = (score: number): string => {
+  if (score >= 90) return 'bg-green-100 text-green-800';
+  if (score >= 60) return 'bg-amber-100 text-amber-800';
+  return 'bg-red-100 text-red-800';
+};
+
+export const SeoScoreBadge: React.FC<Props> = ({ score, label = 'SEO' }) => (
+  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold ${scoreClass(score)}`}>
+    {label} {score}
+  </span>
+);
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Session } from '../types.ts';
+
+interface Props {
+  sessions: Session[];
+  currentId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+export const SessionBar: React.FC<Props> = ({ sessions, currentId, onSwitch, onCreate, onRename, onDelete }) => {
+  const current = sessions.find(s => s.id === currentId);
+  if (!current) return null;
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${current.name}" and all of its images?`)) {
+      onDelete();
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+      <label htmlFor="session-select" className="text-gray-500 font-medium">Project:</label>
+      <select
+        id="session-select"
+        value={currentId}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="bg-white border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none"
+      >
+        {sessions.map(s => (
+          <option key={s.id} value={s.id}>{s.name || 'Untitled project'}</option>
+        ))}
+      </select>
+      <input
+        // Remounted per session so the field shows the right name after switching
+        key={currentId}
+        type="text"
+        defaultValue={current.name}
+        onBlur={(e) => e.target.value.trim() !== current.name && onRename(e.target.value.trim())}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        aria-label="Project name"
+        className="flex-1 min-w-[8rem] bg-white border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none"
+      />
+      <button
+        onClick={onCreate}
+        className="text-indigo-600 hover:bg-indigo-50 font-semibold px-3 py-1 rounded-md transition-colors"
+      >
+        New
+      </button>
+      <button
+        onClick={handleDelete}
+        className="text-red-600 hover:bg-red-50 font-semibold px-3 py-1 rounded-md transition-colors"
+      >
+        Delete
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,434 @@
+import React, { useState } from 'react';
+import { EmbedSettings, PrivacySettings, ExifPolicy, AiSettings, AiProviderId, ApiKeySettings, KeyStorage, BulkAiSettings, LintSettings, LintLevel, QualitySettings, ProfileSettings } from '../types.ts';
+import { EXIF_POLICIES } from '../services/exifService.ts';
+import { getProvider, listProviders, validateApiKey } from '../services/metadataService.ts';
+import { maskApiKey } from '../services/apiKeyService.ts';
+import { DEFAULT_LINT_SETTINGS, getRuleLevel, LINT_RULES } from '../services/seoLintService.ts';
+import { DEFAULT_PROFILE_SETTINGS } from '../services/profileService.ts';
+import { ProfileManager } from './ProfileManager.tsx';
+
+interface Props {
+  embedSettings: EmbedSettings;
+  onEmbedSettingsChange: (settings: EmbedSettings) => void;
+  privacySettings: PrivacySettings;
+  onPrivacySettingsChange: (settings: PrivacySettings) => void;
+  onApplyExifPolicyToAll?: (policy: ExifPolicy) => void;
+  aiSettings: AiSettings;
+  onAiSettingsChange: (settings: AiSettings) => void;
+  apiKeys: ApiKeySettings;
+  onApiKeysChange: (settings: ApiKeySettings) => void;
+  bulkAiSettings: BulkAiSettings;
+  onBulkAiSettingsChange: (settings: BulkAiSettings) => void;
+  lintSettings: LintSettings;
+  onLintSettingsChange: (settings: LintSettings) => void;
+  qualitySettings: QualitySettings;
+  onQualitySettingsChange: (settings: QualitySettings) => void;
+  profileSettings: ProfileSettings;
+  onProfileSettingsChange: (settings: ProfileSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow text-sm";
+
+interface ApiKeyFieldProps {
+  aiSettings: AiSettings;
+  apiKeys: ApiKeySettings;
+  onApiKeysChange: (settings: ApiKeySettings) => void;
+}
+
+const ApiKeyField: React.FC<ApiKeyFieldProps> = ({ aiSettings, apiKeys, onApiKeysChange }) => {
+  const [draft, setDraft] = useState('');
+  const [test, setTest] = useState<{ state: 'idle' | 'testing' | 'ok' | 'error'; message?: string }>({ state: 'idle' });
+  const provider = getProvider(aiSettings.provider);
+  const savedKey = apiKeys.keys[provider.id] || '';
+
+  const setKey = (key: string) => {
+    onApiKeysChange({ ...apiKeys, keys: { ...apiKeys.keys, [provider.id]: key || undefined } });
+  };
+
+  const handleSave = async () => {
+    const key = draft.trim();
+    if (!key) return;
+    setKey(key);
+    setDraft('');
+    setTest({ state: 'testing' });
+    try {
+      await validateApiKey(aiSettings, key);
+      setTest({ state: 'ok' });
+    } catch (e) {
+      setTest({ state: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const handleRemove = () => {
+    setKey('');
+    setTest({ state: 'idle' });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        API Key {provider.apiKey === 'optional' && <span className="text-gray-400 font-normal">(optional)</span>}
+      </label>
+      {savedKey ? (
+        <div className="flex items-center gap-2">
+          <span className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md font-mono text-sm text-gray-600">
+            {maskApiKey(savedKey)}
+          </span>
+          <button onClick={handleRemove} className="text-sm text-red-600 hover:bg-red-50 px-3 py-2 rounded-md font-medium">
+            Remove
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            autoComplete="off"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder={`Your ${provider.label} key`}
+            className={inputClass}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!draft.trim()}
+            className="text-sm bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 px-3 py-2 rounded-md font-medium whitespace-nowrap"
+          >
+            Save & Test
+          </button>
+        </div>
+      )}
+      {test.state === 'testing' && <p className="text-xs text-gray-500 mt-1">Checking key...</p>}
+      {test.state === 'ok' && <p className="text-xs text-green-700 mt-1">✓ Key verified</p>}
+      {test.state === 'error' && (
+        <p className="text-xs text-red-700 mt-1">✗ Could not verify the key: {test.message}</p>
+      )}
+
+      <div className="flex gap-4 mt-2 text-xs text-gray-600">
+        {([['local', 'Remember on this device'], ['session', 'This browser session only']] as [KeyStorage, string][]).map(([value, label]) => (
+          <label key={value} className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="radio"
+              name="key-storage"
+              checked={apiKeys.storage === value}
+              onChange={() => onApiKeysChange({ ...apiKeys, storage: value })}
+              className="accent-indigo-600"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">Keys stay in your browser and are sent only to the provider.</p>
+    </div>
+  );
+};
+
+export const SettingsPanel: React.FC<Props> = ({
+  embedSettings,
+  onEmbedSettingsChange,
+  privacySettings,
+  onPrivacySettingsChange,
+  onApplyExifPolicyToAll,
+  aiSettings,
+  onAiSettingsChange,
+  apiKeys,
+  onApiKeysChange,
+  bulkAiSettings,
+  onBulkAiSettingsChange,
+  lintSettings,
+  onLintSettingsChange,
+  qualitySettings,
+  onQualitySettingsChange,
+  profileSettings,
+  onProfileSettingsChange,
+  onClose
+}) => {
+  const provider = getProvider(aiSettings.provider);
+
+  const updateEmbed = (updates: Partial<EmbedSettings>) => {
+    onEmbedSettingsChange({ ...embedSettings, ...updates });
+  };
+
+  const updateLint = (updates: Partial<LintSettings>) => {
+    onLintSettingsChange({ ...lintSettings, ...updates });
+  };
+
+  const parseList = (text: string) => text.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+
+  const lintLimits: { key: 'titleMaxLength' | 'altMinLength' | 'altMaxLength' | 'slugMaxLength' | 'maxWordRepeats'; label: string }[] = [
+    { key: 'titleMaxLength', label: 'Max title length' },
+    { key: 'altMinLength', label: 'Min alt length' },
+    { key: 'altMaxLength', label: 'Max alt length' },
+    { key: 'slugMaxLength', label: 'Max file name length' },
+    { key: 'maxWordRepeats', label: 'Max repeats of a word' }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 flex items-start justify-center p-4 overflow-y-auto" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-gray-200 w-full max-w-lg mt-16"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <h2 className="text-lg font-bold text-gray-800">Settings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none" aria-label="Close settings">
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <section>
+            <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wider mb-3">AI Metadata Provider</h3>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+                <select
+                  value={aiSettings.provider}
+                  // Model and endpoint are provider-specific, so switching resets them to the defaults
+                  onChange={(e) => onAiSettingsChange({ provider: e.target.value as AiProviderId, model: '', endpoint: '' })}
+                  className={inputClass}
+                >
+                  {listProviders().map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+                <input
+                  type="text"
+                  value={aiSettings.model}
+                  onChange={(e) => onAiSettingsChange({ ...aiSettings, model: e.target.value })}
+                  placeholder={provider.defaultModel}
+                  className={inputClass}
+                />
+              </div>
+              {provider.defaultEndpoint && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Endpoint</label>
+                  <input
+                    type="url"
+                    value={aiSettings.endpoint}
+                    onChange={(e) => onAiSettingsChange({ ...aiSettings, endpoint: e.target.value })}
+                    placeholder={provider.defaultEndpoint}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              {provider.apiKey !== 'none' && (
+                <ApiKeyField
+                  key={provider.id}
+                  aiSettings={aiSettings}
+                  apiKeys={apiKeys}
+                  onApiKeysChange={onApiKeysChange}
+                />
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Parallel requests</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="8"
+                    value={bulkAiSettings.concurrency}
+                    onChange={(e) => onBulkAiSettingsChange({ ...bulkAiSettings, concurrency: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Requests per minute</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={bulkAiSettings.requestsPerMinute}
+                    onChange={(e) => onBulkAiSettingsChange({ ...bulkAiSettings, requestsPerMinute: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-400">Limits for "Auto-Generate SEO for all". 0 requests per minute means no limit.</p>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wider mb-3">Embedded Metadata</h3>
+            <label className="flex items-start gap-2 text-sm text-gray-700 mb-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={embedSettings.enabled}
+                onChange={(e) => updateEmbed({ enabled: e.target.checked })}
+                className="mt-0.5 accent-indigo-600"
+              />
+              <span>
+                Write title, caption and alt text into downloaded files
+                <span className="block text-xs text-gray-500">XMP for JPEG, WebP and PNG, plus IPTC for JPEG and text chunks for PNG. AVIF files are exported without it.</span>
+              </span>
+            </label>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Creator</label>
+                <input
+                  type="text"
+                  value={embedSettings.creator}
+                  onChange={(e) => updateEmbed({ creator: e.target.value })}
+                  placeholder="e.g., Jane Doe"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Copyright</label>
+                <input
+                  type="text"
+                  value={embedSettings.copyright}
+                  onChange={(e) => updateEmbed({ copyright: e.target.value })}
+                  placeholder="e.g., © 2026 Example Media"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wider">Compression Profiles</h3>
+              <button
+                onClick={() => onProfileSettingsChange(DEFAULT_PROFILE_SETTINGS)}
+                className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <ProfileManager settings={profileSettings} onChange={onProfileSettingsChange} />
+          </section>
+
+          <section>
+            <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wider mb-3">Visual Quality</h3>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Minimum SSIM</label>
+            <input
+              type="number"
+              min="0"
+              max="1"
+              step="0.01"
+              value={qualitySettings.minSsim}
+              onChange={(e) => onQualitySettingsChange({ ...qualitySettings, minSsim: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Images scoring below this are flagged. 0.95 is a good bar for photos; 0 turns the check off.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 mb-1 mt-4">Smart quality floor</label>
+            <input
+              type="number"
+              min="0.5"
+              max="0.99"
+              step="0.01"
+              value={qualitySettings.smartFloor}
+              onChange={(e) => onQualitySettingsChange({ ...qualitySettings, smartFloor: Math.min(0.99, Math.max(0.5, parseFloat(e.target.value) || 0)) })}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Smart quality keeps the smallest output whose SSIM stays at or above this.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={qualitySettings.smartByDefault}
+                onChange={(e) => onQualitySettingsChange({ ...qualitySettings, smartByDefault: e.target.checked })}
+                className="accent-indigo-600"
+              />
+              Use smart quality for new images
+            </label>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wider">SEO Rules</h3>
+              <button
+                onClick={() => onLintSettingsChange(DEFAULT_LINT_SETTINGS)}
+                className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <div className="divide-y divide-gray-100 mb-3">
+              {LINT_RULES.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between gap-3 py-1.5 text-sm text-gray-700">
+                  <span>{rule.label}</span>
+                  <select
+                    value={getRuleLevel(rule, lintSettings)}
+                    onChange={(e) => updateLint({ levels: { ...lintSettings.levels, [rule.id]: e.target.value as LintLevel } })}
+                    className="text-xs bg-white border border-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    <option value="off">Off</option>
+                    <option value="warning">Warning</option>
+                    <option value="error">Error</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              {lintLimits.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={lintSettings[key]}
+                    onChange={(e) => updateLint({ [key]: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Redundant alt text openings</label>
+                <input
+                  type="text"
+                  // Edited as free text and parsed on blur; the key resets it when the list changes elsewhere
+                  key={lintSettings.redundantAltPrefixes.join(',')}
+                  defaultValue={lintSettings.redundantAltPrefixes.join(', ')}
+                  onBlur={(e) => updateLint({ redundantAltPrefixes: parseList(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">File name stop words</label>
+                <input
+                  type="text"
+                  key={lintSettings.slugStopWords.join(',')}
+                  defaultValue={lintSettings.slugStopWords.join(', ')}
+                  onBlur={(e) => updateLint({ slugStopWords: parseList(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wider mb-3">EXIF & Privacy</h3>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Default for new images</label>
+            <select
+              value={privacySettings.exifPolicy}
+              onChange={(e) => onPrivacySettingsChange({ ...privacySettings, exifPolicy: e.target.value as ExifPolicy })}
+              className={inputClass}
+            >
+              {EXIF_POLICIES.map(p => (
+                <option key={p.value} value={p.value}>{p.label}: {p.description}</option>
+              ))}
+            </select>
+            {onApplyExifPolicyToAll && (
+              <button
+                onClick={() => onApplyExifPolicyToAll(privacySettings.exifPolicy)}
+                className="mt-2 text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+              >
+                Apply to all images in the queue
+              </button>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
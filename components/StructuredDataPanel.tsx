@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { CmsExportSettings, OptimizedImage } from '../types.ts';
+import {
+  buildImageJsonLd, buildImageSitemap, hasSitemapUrls, JSON_LD_FILE_NAME, SITEMAP_FILE_NAME, StructuredDataOptions, toJsonLdScript
+} from '../services/structuredDataService.ts';
+import { isAbsoluteUrl } from '../services/markupService.ts';
+import { downloadBlob } from '../services/downloadService.ts';
+
+interface Props {
+  images: OptimizedImage[];
+  settings: CmsExportSettings;
+  onSettingsChange: (settings: CmsExportSettings) => void;
+  options: StructuredDataOptions;
+}
+
+type Output = 'sitemap' | 'jsonld';
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow text-sm";
+
+export const StructuredDataPanel: React.FC<Props> = ({ images, settings, onSettingsChange, options }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [output, setOutput] = useState<Output>('jsonld');
+  const [copied, setCopied] = useState(false);
+
+  const update = (updates: Partial<CmsExportSettings>) => {
+    onSettingsChange({ ...settings, ...updates });
+  };
+
+  const text = output === 'sitemap' ? buildImageSitemap(images, options) : toJsonLdScript(buildImageJsonLd(images, options));
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Clipboard write failed", e);
+    }
+  };
+
+  const handleDownload = () => {
+    if (output === 'sitemap') {
+      downloadBlob(new Blob([text], { type: 'application/xml' }), SITEMAP_FILE_NAME);
+    } else {
+      downloadBlob(new Blob([buildImageJsonLd(images, options)], { type: 'application/ld+json' }), JSON_LD_FILE_NAME);
+    }
+  };
+
+  const warnings = [
+    !isAbsoluteUrl(settings.baseUrl) && 'Search engines need full image URLs, so set the base URL to https://…',
+    output === 'sitemap' && !isAbsoluteUrl(settings.pageUrl) && 'The sitemap entry needs the full URL of the page.',
+    output === 'sitemap' && !hasSitemapUrls(options) && 'Download All leaves the sitemap out until both URLs are set.'
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 mb-6 shadow-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="text-sm font-bold text-gray-800">
+          {expanded ? '▾' : '▸'} Image sitemap &amp; structured data
+        </span>
+        {!expanded && (
+          <span className="text-xs text-gray-500 ml-3">Included in Download All</span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Image base URL</label>
+              <input
+                type="text"
+                value={settings.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value.trim() })}
+                placeholder="https://example.com/images"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Page URL</label>
+              <input
+                type="text"
+                value={settings.pageUrl}
+                onChange={(e) => update({ pageUrl: e.target.value.trim() })}
+                placeholder="https://example.com/blog/my-article"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">License URL</label>
+              <input
+                type="text"
+                value={settings.licenseUrl}
+                onChange={(e) => update({ licenseUrl: e.target.value.trim() })}
+                placeholder="https://creativecommons.org/licenses/by/4.0/"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Creator and copyright come from Settings → Embedded Metadata, the language from the article context.
+          </p>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex gap-1 text-xs">
+                {([['jsonld', 'JSON-LD'], ['sitemap', 'Image sitemap']] as const).map(([id, label]) => (
+                  <button
+                    key={id}
+                    onClick={() => setOutput(id)}
+                    className={`px-2 py-0.5 rounded ${output === id ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:bg-gray-100'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <span className="flex gap-3 text-xs">
+                <button onClick={handleCopy} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+                <button onClick={handleDownload} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                  Download
+                </button>
+              </span>
+            </div>
+            {warnings.map(warning => (
+              <p key={warning as string} className="text-xs text-amber-700 mb-1">{warning}</p>
+            ))}
+            <pre className="text-xs bg-gray-900 text-gray-100 rounded-md p-2 overflow-x-auto whitespace-pre-wrap break-all max-h-80 overflow-y-auto">
+              {text}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { WatermarkPosition, WatermarkSettings } from '../types.ts';
+
+interface Props {
+  settings: WatermarkSettings;
+  onChange: (settings: WatermarkSettings) => void;
+}
+
+const POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'center', label: 'Centre' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' }
+];
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-shadow text-sm";
+const sliderClass = "w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600";
+
+export const WatermarkPanel: React.FC<Props> = ({ settings, onChange }) => {
+  const [expanded, setExpanded] = useState(settings.enabled);
+  const [logoUrl, setLogoUrl] = useState('');
+
+  useEffect(() => {
+    if (!settings.logo) {
+      setLogoUrl('');
+      return;
+    }
+    const url = URL.createObjectURL(settings.logo);
+    setLogoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [settings.logo]);
+
+  const update = (updates: Partial<WatermarkSettings>) => {
+    onChange({ ...settings, ...updates });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 mb-6 shadow-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="text-sm font-bold text-gray-800">
+          {expanded ? '▾' : '▸'} Watermark
+        </span>
+        {!expanded && (
+          <span className="text-xs text-gray-500 ml-3">{settings.enabled ? 'On for this project' : 'Off'}</span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            Add a watermark to every image in this project
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Type</span>
+              <div className="flex gap-4 text-sm text-gray-600">
+                {(['text', 'logo'] as const).map(type => (
+                  <label key={type} className="flex items-center gap-1 cursor-pointer capitalize">
+                    <input
+                      type="radio"
+                      name="watermark-type"
+                      checked={settings.type === type}
+                      onChange={() => update({ type })}
+                      className="accent-indigo-600"
+                    />
+                    {type}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Position</label>
+              <select
+                value={settings.position}
+                onChange={(e) => update({ position: e.target.value as WatermarkPosition })}
+                className={inputClass}
+              >
+                {POSITIONS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+              </select>
+            </div>
+
+            {settings.type === 'text' ? (
+              <div className="md:col-span-2 flex gap-2 items-end">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Text</label>
+                  <input
+                    type="text"
+                    value={settings.text}
+                    onChange={(e) => update({ text: e.target.value })}
+                    placeholder="e.g., © Example Media"
+                    className={inputClass}
+                  />
+                </div>
+                <input
+                  type="color"
+                  value={settings.color}
+                  onChange={(e) => update({ color: e.target.value })}
+                  aria-label="Text colour"
+                  className="w-10 h-9 border border-gray-200 rounded-md cursor-pointer"
+                />
+              </div>
+            ) : (
+              <div className="md:col-span-2 flex items-center gap-3">
+                {logoUrl && <img src={logoUrl} alt="Watermark logo" className="h-10 max-w-[8rem] object-contain bg-gray-100 rounded" />}
+                <label className="text-sm text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer">
+                  {settings.logo ? 'Replace logo' : 'Choose logo'}
+                  <input
+                    type="file"
+                    accept="image/png,image/webp,image/jpeg"
+                    onChange={(e) => e.target.files?.[0] && update({ logo: e.target.files[0] })}
+                    className="hidden"
+                  />
+                </label>
+                <span className="text-xs text-gray-500">A PNG with transparency works best.</span>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Opacity: {Math.round(settings.opacity * 100)}%</label>
+              <input
+                type="range"
+                min="0.1"
+                max="1"
+                step="0.05"
+                value={settings.opacity}
+                onChange={(e) => update({ opacity: parseFloat(e.target.value) })}
+                className={sliderClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Size: {Math.round(settings.scale * 100)}% of width</label>
+              <input
+                type="range"
+                min="0.05"
+                max="0.6"
+                step="0.01"
+                value={settings.scale}
+                onChange={(e) => update({ scale: parseFloat(e.target.value) })}
+                className={sliderClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Margin: {(settings.margin * 100).toFixed(1)}% of width</label>
+              <input
+                type="range"
+                min="0"
+                max="0.1"
+                step="0.005"
+                value={settings.margin}
+                onChange={(e) => update({ margin: parseFloat(e.target.value) })}
+                className={sliderClass}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import { AiError, AiErrorKind } from '../types.ts';
+
+const RETRYABLE: AiErrorKind[] = ['rate-limit', 'network'];
+
+/**
+ * A classified failure from a metadata provider.
+ */
+export class MetadataError extends Error {
+  readonly kind: AiErrorKind;
+  readonly retryAfter: number | null; // Milliseconds the server asked us to wait, if it said
+
+  constructor(kind: AiErrorKind, message: string, retryAfter: number | null = null) {
+    super(message);
+    this.name = 'MetadataError';
+    this.kind = kind;
+    this.retryAfter = retryAfter;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+const kindFromStatus = (status: number, message: string): AiErrorKind => {
+  if (status === 429) return 'rate-limit';
+  if (status === 401 || status === 403) return 'invalid-key';
+  // Gemini reports a bad key as a 400 rather than a 401
+  if (status === 400 && /api[ _-]?key/i.test(message)) return 'invalid-key';
+  if (status === 408 || status >= 500) return 'network';
+  return 'unknown';
+};
+
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Turns a non-OK fetch response into a MetadataError.
+ */
+export const errorFromResponse = async (response: Response, label: string): Promise<MetadataError> => {
+  const body = await response.text().catch(() => '');
+  const message = `${label} request failed: ${response.status} ${body || response.statusText}`;
+  return new MetadataError(
+    kindFromStatus(response.status, body),
+    message,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+};
+
+/**
+ * Classifies anything a provider threw. SDK errors carrying an HTTP status are mapped
+ * like fetch responses; fetch rejects with a TypeError when the request never got an answer.
+ */
+export const toMetadataError = (error: unknown): MetadataError => {
+  if (error instanceof MetadataError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+
+  if (status !== null) return new MetadataError(kindFromStatus(status, message), message);
+  if (error instanceof SyntaxError) return new MetadataError('malformed', `The model returned invalid JSON: ${message}`);
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new MetadataError('network', `Could not reach the provider: ${message}`);
+  return new MetadataError('unknown', message);
+};
+
+const ERROR_HINTS: Record<AiErrorKind, string> = {
+  'rate-limit': 'The provider is rate limiting requests or your quota is used up. Try again later.',
+  'invalid-key': 'The API key was rejected. Check it in Settings.',
+  'safety': 'The provider declined to describe this image for safety reasons. Write the metadata by hand.',
+  'malformed': 'The model answered, but not with usable metadata. Try again or pick another model.',
+  'network': 'Could not reach the provider. Check your connection or endpoint.',
+  'unknown': 'Metadata generation failed.'
+};
+
+/**
+ * The plain, storable form shown on the image card.
+ */
+export const toAiError = (error: unknown): AiError => {
+  const { kind, message } = toMetadataError(error);
+  return { kind, message: `${ERROR_HINTS[kind]} (${message})` };
+};
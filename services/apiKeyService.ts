@@ -0,0 +1,44 @@
+import { ApiKeySettings, KeyStorage } from '../types.ts';
+
+const STORAGE_KEY = 'aj-seo:api-keys';
+
+const getStorage = (storage: KeyStorage): Storage => {
+  return storage === 'local' ? localStorage : sessionStorage;
+};
+
+/**
+ * Reads the user's API keys from whichever storage they chose.
+ * Session storage wins if both exist, since it is the more recent, more private choice.
+ */
+export const loadApiKeys = (): ApiKeySettings => {
+  for (const storage of ['session', 'local'] as KeyStorage[]) {
+    try {
+      const raw = getStorage(storage).getItem(STORAGE_KEY);
+      if (raw) return { storage, keys: JSON.parse(raw) };
+    } catch (e) {
+      console.error("Could not read API keys", e);
+    }
+  }
+  return { storage: 'local', keys: {} };
+};
+
+/**
+ * Saves the keys to the chosen storage and removes them from the other one.
+ */
+export const saveApiKeys = (settings: ApiKeySettings) => {
+  const other: KeyStorage = settings.storage === 'local' ? 'session' : 'local';
+  try {
+    getStorage(other).removeItem(STORAGE_KEY);
+    getStorage(settings.storage).setItem(STORAGE_KEY, JSON.stringify(settings.keys));
+  } catch (e) {
+    console.error("Could not save API keys", e);
+  }
+};
+
+/**
+ * Masks a key for display, keeping just enough to recognise it: "AIza••••••••x3Qk"
+ */
+export const maskApiKey = (key: string): string => {
+  if (key.length <= 8) return '•'.repeat(key.length);
+  return `${key.slice(0, 4)}${'•'.repeat(8)}${key.slice(-4)}`;
+};
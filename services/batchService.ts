@@ -0,0 +1,125 @@
+import { BatchProgress } from '../types.ts';
+
+const WINDOW_MS = 60000;
+
+const abortError = () => new DOMException('Batch cancelled', 'AbortError');
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Sliding-window limiter: at most `requestsPerMinute` calls to `acquire` resolve in any
+ * 60 second window. 0 means unlimited.
+ */
+export const createRateLimiter = (requestsPerMinute: number) => {
+  const started: number[] = [];
+
+  const acquire = async (signal: AbortSignal): Promise<void> => {
+    if (requestsPerMinute <= 0) return;
+    for (;;) {
+      if (signal.aborted) throw abortError();
+      const now = Date.now();
+      while (started.length && now - started[0] >= WINDOW_MS) started.shift();
+      if (started.length < requestsPerMinute) {
+        started.push(now);
+        return;
+      }
+      await wait(started[0] + WINDOW_MS - now, signal);
+    }
+  };
+
+  return { acquire };
+};
+
+interface BatchOptions {
+  concurrency: number;
+  requestsPerMinute: number;
+  onProgress: (progress: BatchProgress) => void;
+}
+
+export interface BatchControl {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  done: Promise<void>;
+}
+
+/**
+ * Runs `task` over every item with bounded concurrency and a request rate limit.
+ * Pausing lets running tasks finish but starts no new ones; cancelling aborts the
+ * signal passed to running tasks and drops the rest. A task that throws counts as
+ * failed without stopping the batch.
+ */
+export const runBatch = <T>(
+  items: T[],
+  task: (item: T, signal: AbortSignal) => Promise<void>,
+  { concurrency, requestsPerMinute, onProgress }: BatchOptions
+): BatchControl => {
+  const controller = new AbortController();
+  const limiter = createRateLimiter(requestsPerMinute);
+  const progress: BatchProgress = { total: items.length, completed: 0, failed: 0, paused: false };
+  let next = 0;
+  let resumeWaiters: (() => void)[] = [];
+
+  const report = () => onProgress({ ...progress });
+
+  const whilePaused = () => new Promise<void>(resolve => {
+    if (!progress.paused || controller.signal.aborted) resolve();
+    else resumeWaiters.push(resolve);
+  });
+
+  const worker = async () => {
+    while (next < items.length) {
+      await whilePaused();
+      if (controller.signal.aborted) return;
+      const item = items[next++];
+      try {
+        await limiter.acquire(controller.signal);
+        // The limiter may have waited a while; honour a pause or cancel that came in meanwhile
+        await whilePaused();
+        if (controller.signal.aborted) return;
+        await task(item, controller.signal);
+        progress.completed++;
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        progress.failed++;
+      }
+      report();
+    }
+  };
+
+  const wakeAll = () => {
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+  };
+
+  report();
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+
+  return {
+    pause: () => {
+      progress.paused = true;
+      report();
+    },
+    resume: () => {
+      progress.paused = false;
+      wakeAll();
+      report();
+    },
+    cancel: () => {
+      controller.abort();
+      wakeAll();
+    },
+    done: Promise.all(workers).then(() => undefined)
+  };
+};
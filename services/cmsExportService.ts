@@ -0,0 +1,136 @@
+import { CmsExportFormat, OptimizedImage } from '../types.ts';
+import { PublishedImage, toPublishedImages } from './exportService.ts';
+import { buildSizes, buildSrcset, escapeHtml } from './markupService.ts';
+
+export const CMS_EXPORT_FORMATS: { id: CmsExportFormat; label: string; fileName: string; mimeType: string }[] = [
+  { id: 'html', label: 'HTML <figure>', fileName: 'images.html', mimeType: 'text/html' },
+  { id: 'markdown', label: 'Markdown / MDX', fileName: 'images.md', mimeType: 'text/markdown' },
+  { id: 'yaml', label: 'Front matter (YAML)', fileName: 'images.yml', mimeType: 'text/yaml' },
+  { id: 'wxr', label: 'WordPress (WXR)', fileName: 'wordpress-attachments.xml', mimeType: 'application/xml' }
+];
+
+export interface CmsExportOptions {
+  baseUrl: string;
+  title: string; // Project name, used as the WordPress channel title
+  language: string;
+}
+
+const buildFigure = (published: PublishedImage): string => {
+  const { image, url } = published;
+  const { title, altText, caption } = image.metadata;
+  const srcset = buildSrcset(published);
+  const attributes = [
+    `src="${escapeHtml(url)}"`,
+    srcset && `srcset="${escapeHtml(srcset)}"`,
+    srcset && `sizes="${escapeHtml(buildSizes(image))}"`,
+    `width="${image.width}"`,
+    `height="${image.height}"`,
+    `alt="${escapeHtml(altText)}"`,
+    title && `title="${escapeHtml(title)}"`,
+    `loading="lazy"`,
+    `decoding="async"`
+  ].filter(Boolean).join(' ');
+
+  return [
+    '<figure>',
+    `  <img ${attributes}>`,
+    caption && `  <figcaption>${escapeHtml(caption)}</figcaption>`,
+    '</figure>'
+  ].filter(Boolean).join('\n');
+};
+
+// Brackets end the alt text, a backslash would escape what follows, and MDX reads < and { as JSX
+const escapeMarkdownText = (text: string) => text.replace(/[\\[\]*_<>{}]/g, '\\$&');
+
+/**
+ * ![alt](url "title"), with the caption as an emphasized line underneath. Works in MDX as is.
+ */
+const buildMarkdown = ({ image, url }: PublishedImage): string => {
+  const { title, altText, caption } = image.metadata;
+  const destination = url.replace(/ /g, '%20').replace(/\)/g, '%29');
+  const titlePart = title ? ` "${title.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : '';
+  const lines = [`![${escapeMarkdownText(altText)}](${destination}${titlePart})`];
+  if (caption) lines.push(`*${escapeMarkdownText(caption)}*`);
+  return lines.join('\n');
+};
+
+/**
+ * An `images:` list to paste into a page's front matter. Strings are written as JSON,
+ * which is also valid double-quoted YAML and avoids YAML's many special characters.
+ */
+const buildYaml = (items: PublishedImage[]): string => {
+  const entries = items.map(({ image, url }) => [
+    `  - src: ${JSON.stringify(url)}`,
+    `    alt: ${JSON.stringify(image.metadata.altText)}`,
+    `    title: ${JSON.stringify(image.metadata.title)}`,
+    `    caption: ${JSON.stringify(image.metadata.caption)}`,
+    `    width: ${image.width}`,
+    `    height: ${image.height}`
+  ].join('\n'));
+  return ['images:', ...entries].join('\n');
+};
+
+const formatWpDate = (date: Date) => date.toISOString().slice(0, 19).replace('T', ' ');
+
+/**
+ * A WordPress eXtended RSS file with one attachment per image. The WordPress importer
+ * downloads each file from its URL, so the base URL has to be absolute and reachable;
+ * title, caption (the excerpt) and alt text come along with it.
+ */
+const buildWxr = (items: PublishedImage[], options: CmsExportOptions): string => {
+  const now = formatWpDate(new Date());
+  const entries = items.map(({ image, name, url }, index) => {
+    const { title, altText, caption } = image.metadata;
+    return [
+      '  <item>',
+      `    <title>${escapeHtml(title || name)}</title>`,
+      `    <link>${escapeHtml(url)}</link>`,
+      '    <description></description>',
+      '    <content:encoded></content:encoded>',
+      `    <excerpt:encoded>${escapeHtml(caption)}</excerpt:encoded>`,
+      `    <wp:post_id>${index + 1}</wp:post_id>`,
+      `    <wp:post_date>${now}</wp:post_date>`,
+      `    <wp:post_name>${escapeHtml(name)}</wp:post_name>`,
+      '    <wp:status>inherit</wp:status>',
+      '    <wp:post_parent>0</wp:post_parent>',
+      '    <wp:post_type>attachment</wp:post_type>',
+      `    <wp:attachment_url>${escapeHtml(url)}</wp:attachment_url>`,
+      '    <wp:postmeta>',
+      '      <wp:meta_key>_wp_attachment_image_alt</wp:meta_key>',
+      `      <wp:meta_value>${escapeHtml(altText)}</wp:meta_value>`,
+      '    </wp:postmeta>',
+      '  </item>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0"',
+    '  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"',
+    '  xmlns:content="http://purl.org/rss/1.0/modules/content/"',
+    '  xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '  xmlns:wp="http://wordpress.org/export/1.2/">',
+    '<channel>',
+    `  <title>${escapeHtml(options.title)}</title>`,
+    `  <link>${escapeHtml(options.baseUrl)}</link>`,
+    '  <description></description>',
+    `  <language>${escapeHtml(options.language)}</language>`,
+    '  <wp:wxr_version>1.2</wp:wxr_version>',
+    ...entries,
+    '</channel>',
+    '</rss>'
+  ].join('\n');
+};
+
+/**
+ * Turns the finished images in the queue into ready-to-paste snippets or an import file.
+ */
+export const buildCmsExport = (images: OptimizedImage[], format: CmsExportFormat, options: CmsExportOptions): string => {
+  const items = toPublishedImages(images, options.baseUrl);
+  switch (format) {
+    case 'html': return items.map(buildFigure).join('\n\n');
+    case 'markdown': return items.map(buildMarkdown).join('\n\n');
+    case 'yaml': return buildYaml(items);
+    case 'wxr': return buildWxr(items, options);
+  }
+};
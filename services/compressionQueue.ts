@@ -0,0 +1,148 @@
+import { CompressionJob, CompressionJobResult } from '../types.ts';
+import { runCompressionJob } from './compressionService.ts';
+
+export interface WorkerRequest {
+  jobId: number;
+  job: CompressionJob;
+}
+
+export type WorkerResponse =
+  | { jobId: number; ok: true; value: CompressionJobResult }
+  | { jobId: number; ok: false; error: string };
+
+interface RunOptions {
+  signal?: AbortSignal;
+  onStart?: () => void; // Called when the job leaves the queue and starts running
+}
+
+interface QueuedTask {
+  jobId: number;
+  job: CompressionJob;
+  options: RunOptions;
+  resolve: (value: CompressionJobResult) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface Slot {
+  worker: Worker | null; // null when running on the main thread
+  task: QueuedTask | null;
+}
+
+export interface CompressionQueue {
+  run: (job: CompressionJob, options?: RunOptions) => Promise<CompressionJobResult>;
+}
+
+const abortError = () => new DOMException('Compression cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * Workers need OffscreenCanvas to encode; without it everything runs on the main thread.
+ */
+const supportsWorkers = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const createWorker = () => new Worker(new URL('../workers/compressionWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Creates a bounded compression queue backed by a pool of Web Workers.
+ * At most `size` jobs run at once; the rest wait in FIFO order. Aborting a queued job
+ * drops it, aborting a running job terminates its worker (the only way to interrupt
+ * a decode or encode) and a fresh one is started for the next job.
+ */
+export const createCompressionQueue = (
+  size = Math.max(1, Math.min(navigator.hardwareConcurrency || 4, 8))
+): CompressionQueue => {
+  const useWorkers = supportsWorkers();
+  // Main-thread fallback runs one job at a time to keep the page responsive
+  const slots: Slot[] = Array.from({ length: useWorkers ? size : 1 }, () => ({ worker: null, task: null }));
+  const queue: QueuedTask[] = [];
+  let nextJobId = 1;
+
+  const finish = (slot: Slot) => {
+    slot.task = null;
+    pump();
+  };
+
+  const handleResponse = (slot: Slot, response: WorkerResponse) => {
+    const task = slot.task;
+    if (!task || task.jobId !== response.jobId) return;
+    if (response.ok) task.resolve(response.value);
+    else task.reject(new Error(response.error));
+    finish(slot);
+  };
+
+  const getWorker = (slot: Slot): Worker => {
+    if (!slot.worker) {
+      const worker = createWorker();
+      worker.addEventListener('message', (e: MessageEvent<WorkerResponse>) => handleResponse(slot, e.data));
+      worker.addEventListener('error', (e) => {
+        slot.task?.reject(new Error(e.message || 'Compression worker crashed'));
+        worker.terminate();
+        slot.worker = null;
+        finish(slot);
+      });
+      slot.worker = worker;
+    }
+    return slot.worker;
+  };
+
+  const start = (slot: Slot, task: QueuedTask) => {
+    slot.task = task;
+    task.options.onStart?.();
+
+    if (useWorkers) {
+      const request: WorkerRequest = { jobId: task.jobId, job: task.job };
+      getWorker(slot).postMessage(request);
+      return;
+    }
+
+    runCompressionJob(task.job).then(
+      (value) => handleResponse(slot, { jobId: task.jobId, ok: true, value }),
+      (error) => handleResponse(slot, { jobId: task.jobId, ok: false, error: error instanceof Error ? error.message : String(error) })
+    );
+  };
+
+  const pump = () => {
+    for (const slot of slots) {
+      if (slot.task || queue.length === 0) continue;
+      start(slot, queue.shift()!);
+    }
+  };
+
+  const cancel = (task: QueuedTask) => {
+    const queued = queue.indexOf(task);
+    if (queued !== -1) {
+      queue.splice(queued, 1);
+      task.reject(abortError());
+      return;
+    }
+
+    const slot = slots.find(s => s.task === task);
+    if (!slot) return;
+    task.reject(abortError());
+    // On the main thread the running job can't be interrupted. Its result is ignored, but
+    // the slot stays taken until it settles so encodes don't pile up on the UI thread.
+    if (!slot.worker) return;
+    slot.worker.terminate();
+    slot.worker = null;
+    finish(slot);
+  };
+
+  const run = (job: CompressionJob, options: RunOptions = {}): Promise<CompressionJobResult> => {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const task: QueuedTask = { jobId: nextJobId++, job, options, resolve, reject };
+      options.signal?.addEventListener('abort', () => cancel(task), { once: true });
+      queue.push(task);
+      pump();
+    });
+  };
+
+  return { run };
+};
@@ -1,65 +1,617 @@
-import { CompressionConfig } from '../types.ts';
+import { CompressionConfig, CompressionJob, CompressionJobResult, CompressionResult, CropRect, ImageInfo, ImageTransform, ImageVariant, OutputFormat, QualityScore, WatermarkSettings } from '../types.ts';
+import { AnyCanvas, SourceImage, getImageBackend } from './imageBackend.ts';
+import { transliterate } from './localeService.ts';
+import { createQualityAccumulator } from './qualityMetricService.ts';
+import { readImageInfo } from './imageInfoService.ts';
+import { IDENTITY_TRANSFORM, centeredCrop, findSalientCrop, getRotatedSize, isIdentityTransform } from './cropService.ts';
+
+export const OUTPUT_FORMATS: { mime: OutputFormat; label: string; extension: string; alpha: boolean; lossless?: boolean }[] = [
+  { mime: 'image/jpeg', label: 'JPEG', extension: 'jpg', alpha: false },
+  { mime: 'image/webp', label: 'WebP', extension: 'webp', alpha: true },
+  { mime: 'image/avif', label: 'AVIF', extension: 'avif', alpha: true },
+  { mime: 'image/png', label: 'PNG', extension: 'png', alpha: true, lossless: true },
+];
+
+// Not produced by the canvas, but kept as-is when an SVG is optimized rather than rasterized
+const SVG_FORMAT = { mime: 'image/svg+xml', label: 'SVG', extension: 'svg' };
+
+// Formats to try, in order, when the browser cannot encode the requested one
+const FORMAT_FALLBACKS: Record<OutputFormat, OutputFormat[]> = {
+  'image/avif': ['image/avif', 'image/webp', 'image/jpeg'],
+  'image/webp': ['image/webp', 'image/jpeg'],
+  'image/jpeg': ['image/jpeg'],
+  'image/png': ['image/png'],
+};
+
+const createCanvas = (width: number, height: number): AnyCanvas => getImageBackend().createCanvas(width, height);
+
+const canvasToBlob = (canvas: AnyCanvas, type: string, quality?: number): Promise<Blob | null> => {
+  return getImageBackend().canvasToBlob(canvas, type, quality);
+};
+
+const loadImage = (file: Blob, orientation = 1): Promise<SourceImage> => getImageBackend().loadImage(file, orientation);
+
+const encoderSupport = new Map<string, Promise<boolean>>();
+
+/**
+ * Detects whether the browser's canvas can encode the given MIME type.
+ * Unsupported types make the canvas silently fall back to PNG, so we check the result type.
+ */
+export const canEncode = (mimeType: string): Promise<boolean> => {
+  let support = encoderSupport.get(mimeType);
+  if (!support) {
+    support = canvasToBlob(createCanvas(1, 1), mimeType).then(blob => !!blob && blob.type === mimeType);
+    encoderSupport.set(mimeType, support);
+  }
+  return support;
+};
+
+/**
+ * Returns the encoding support of every selectable output format.
+ */
+export const detectSupportedFormats = async (): Promise<Record<OutputFormat, boolean>> => {
+  const entries = await Promise.all(
+    OUTPUT_FORMATS.map(async (f) => [f.mime, await canEncode(f.mime)] as const)
+  );
+  return Object.fromEntries(entries) as Record<OutputFormat, boolean>;
+};
+
+/**
+ * Picks the requested format if the browser can encode it, otherwise the closest fallback.
+ */
+export const resolveOutputFormat = async (format: OutputFormat): Promise<OutputFormat> => {
+  for (const candidate of FORMAT_FALLBACKS[format]) {
+    if (await canEncode(candidate)) return candidate;
+  }
+  return 'image/jpeg';
+};
+
+/**
+ * Maps a MIME type to the file extension used for downloads.
+ */
+export const getExtension = (mimeType: string): string => {
+  return [...OUTPUT_FORMATS, SVG_FORMAT].find(f => f.mime === mimeType)?.extension ?? 'jpg';
+};
+
+/**
+ * Whether a MIME type can store transparency. Unknown types are assumed not to.
+ */
+export const supportsAlpha = (mimeType: string): boolean => {
+  return OUTPUT_FORMATS.find(f => f.mime === mimeType)?.alpha ?? false;
+};
+
+/**
+ * Human-readable label for a MIME type (e.g. "image/webp" -> "WebP")
+ */
+export const getFormatLabel = (mimeType: string): string => {
+  return [...OUTPUT_FORMATS, SVG_FORMAT].find(f => f.mime === mimeType)?.label ?? mimeType;
+};
+
+/**
+ * Sets up the canvas transform for an EXIF orientation so the image is drawn upright.
+ */
+const applyOrientation = (
+  ctx: AnyContext,
+  orientation: number,
+  width: number,
+  height: number
+) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+};
+
+type AnyContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Draws a decoded image upright onto a new canvas of the given size,
+ * over a solid background if one is given.
+ */
+const drawSource = (
+  source: SourceImage,
+  width: number,
+  height: number,
+  background?: string
+): { canvas: AnyCanvas; ctx: AnyContext } => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as AnyContext | null;
+
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  drawUpright(ctx, source, width, height);
+  return { canvas, ctx };
+};
+
+/**
+ * Draws the image upright into the `width` x `height` box at the origin of the context's current transform.
+ */
+const drawUpright = (ctx: AnyContext, source: SourceImage, width: number, height: number) => {
+  // Rotate the image upright if the decoder didn't
+  applyOrientation(ctx, source.orientation, width, height);
+  if (source.orientation >= 5) {
+    ctx.drawImage(source.image, 0, 0, height, width);
+  } else {
+    ctx.drawImage(source.image, 0, 0, width, height);
+  }
+};
+
+/**
+ * Applies rotation, flipping and cropping at full resolution. The result is a new source,
+ * so resizing, target-size search and quality scoring all work on the cropped image.
+ */
+const transformSource = (source: SourceImage, transform: ImageTransform | null | undefined): SourceImage => {
+  if (!transform || isIdentityTransform(transform)) return source;
+
+  const rotated = getRotatedSize(source.width, source.height, transform.rotation);
+  const crop = transform.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const width = Math.max(1, Math.round(crop.width * rotated.width));
+  const height = Math.max(1, Math.round(crop.height * rotated.height));
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as AnyContext | null;
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  // Read bottom-up: centre the upright image on the origin, rotate, flip, then move the crop to the canvas origin
+  ctx.translate(-crop.x * rotated.width, -crop.y * rotated.height);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.scale(transform.flipH ? -1 : 1, transform.flipV ? -1 : 1);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.translate(-source.width / 2, -source.height / 2);
+  drawUpright(ctx, source, source.width, source.height);
+
+  // The canvas holds its own copy of the pixels, so the decoded original can go
+  source.close();
+  return { image: canvas, width, height, orientation: 1, close: () => { canvas.width = 0; } };
+};
+
+// Text is laid out at this size, then scaled to the requested width
+const WATERMARK_MEASURE_SIZE = 100;
+
+/**
+ * Draws the watermark onto a full-resolution copy of the image. Like the crop, it becomes part
+ * of the source, so srcset variants carry it at the same relative size and quality scores
+ * only measure compression loss.
+ */
+const watermarkSource = async (source: SourceImage, watermark: WatermarkSettings | null | undefined): Promise<SourceImage> => {
+  const hasContent = watermark?.type === 'logo' ? !!watermark.logo : !!watermark?.text.trim();
+  if (!watermark?.enabled || !hasContent) return source;
+
+  const { width, height } = source;
+  const { canvas, ctx } = drawSource(source, width, height);
+  source.close();
+
+  const boxWidth = watermark.scale * width;
+  const margin = watermark.margin * width;
+  const place = (boxHeight: number) => ({
+    x: watermark.position.endsWith('left') ? margin : watermark.position.endsWith('right') ? width - margin - boxWidth : (width - boxWidth) / 2,
+    y: watermark.position.startsWith('top') ? margin : watermark.position.startsWith('bottom') ? height - margin - boxHeight : (height - boxHeight) / 2
+  });
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = watermark.opacity;
+
+  if (watermark.type === 'logo' && watermark.logo) {
+    const logo = await loadImage(watermark.logo);
+    try {
+      const boxHeight = (boxWidth * logo.height) / logo.width;
+      const { x, y } = place(boxHeight);
+      ctx.drawImage(logo.image, x, y, boxWidth, boxHeight);
+    } finally {
+      logo.close();
+    }
+  } else {
+    ctx.font = `600 ${WATERMARK_MEASURE_SIZE}px sans-serif`;
+    const fontSize = (WATERMARK_MEASURE_SIZE * boxWidth) / Math.max(1, ctx.measureText(watermark.text).width);
+    ctx.font = `600 ${fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = watermark.color;
+    // A soft shadow keeps the text readable on both light and dark areas
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+    ctx.shadowBlur = fontSize * 0.08;
+    const { x, y } = place(fontSize);
+    ctx.fillText(watermark.text, x, y);
+  }
+
+  return { image: canvas, width, height, orientation: 1, close: () => { canvas.width = 0; } };
+};
+
+/**
+ * Suggests a crop with the given aspect ratio around the most detailed, colourful part of
+ * the image after rotation and flipping.
+ */
+export const suggestSmartCrop = async (
+  file: Blob,
+  transform: ImageTransform,
+  aspect: number,
+  orientation?: number
+): Promise<CropRect> => {
+  const source = transformSource(await loadImage(file, orientation), { ...transform, crop: null });
+  try {
+    const scale = Math.min(1, SMART_CROP_MAX_SIDE / Math.max(source.width, source.height));
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const { data } = drawSource(source, width, height).ctx.getImageData(0, 0, width, height);
+    return findSalientCrop(data, width, height, aspect);
+  } finally {
+    source.close();
+  }
+};
+
+// Saliency is judged on a small copy; crops don't need pixel precision
+const SMART_CROP_MAX_SIDE = 400;
+
+// Formats without an alpha channel would turn transparent pixels black
+export const DEFAULT_MATTE_COLOR = '#ffffff';
+
+const getMatte = (config: CompressionConfig, outputFormat: OutputFormat): string | undefined => {
+  return supportsAlpha(outputFormat) ? undefined : config.matteColor || DEFAULT_MATTE_COLOR;
+};
+
+/**
+ * The size an image is scaled down to so it fits within the config's max width and height.
+ * Images are never scaled up.
+ */
+const fitSize = (width: number, height: number, config: CompressionConfig): { width: number; height: number } => {
+  const scale = Math.min(1, config.maxWidth / width, config.maxHeight ? config.maxHeight / height : 1);
+  if (scale === 1) return { width, height };
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * For 'cover' resizing, crops the centre of the source to the max width/height aspect ratio.
+ * An explicit crop from the crop editor wins, since the user has already chosen the framing.
+ */
+const coverSource = (source: SourceImage, config: CompressionConfig): SourceImage => {
+  // Without both limits there is no box to fill
+  if (config.resizeMode !== 'cover' || !config.maxHeight || !Number.isFinite(config.maxWidth) || config.transform?.crop) return source;
+  const crop = centeredCrop(config.maxWidth / config.maxHeight, source.width, source.height);
+  if (crop.width === 1 && crop.height === 1) return source;
+  return transformSource(source, { ...IDENTITY_TRANSFORM, crop });
+};
+
+/**
+ * Draws an already decoded image onto a resized canvas and exports it.
+ */
+const encodeImage = async (
+  source: SourceImage,
+  config: CompressionConfig,
+  outputFormat: OutputFormat
+): Promise<CompressionResult> => {
+  // 1. Calculate new dimensions while maintaining aspect ratio
+  const { width, height } = fitSize(source.width, source.height, config);
+
+  // 2. Draw the resized image
+  const { canvas } = drawSource(source, width, height, getMatte(config, outputFormat));
+
+  // 3. Export blob with reduced quality
+  const blob = await canvasToBlob(canvas, outputFormat, config.quality);
+  if (!blob) {
+    throw new Error('Compression failed');
+  }
+  return { blob, width, height, quality: config.quality };
+};
+
+// Rows compared at a time; a multiple of the 8px SSIM window so strips line up
+const METRIC_STRIP_ROWS = 256;
+
+/**
+ * Prepares to score encoded outputs against the source at the given size. The source is
+ * drawn once; each output is decoded again and compared strip by strip, so large outputs
+ * don't need all their pixels copied out at once. Scoring resolves null if an output
+ * can't be decoded.
+ */
+const createQualityMeter = (source: SourceImage, width: number, height: number, background?: string) => {
+  let reference: AnyContext | null = null;
+
+  return async (blob: Blob): Promise<QualityScore | null> => {
+    try {
+      // The reference gets the same matte as the output so only compression loss is measured
+      reference ??= drawSource(source, width, height, background).ctx;
+      const decoded = await loadImage(blob);
+      try {
+        const output = drawSource(decoded, width, height).ctx;
+        const accumulator = createQualityAccumulator();
+        for (let y = 0; y < height; y += METRIC_STRIP_ROWS) {
+          const rows = Math.min(METRIC_STRIP_ROWS, height - y);
+          accumulator.add(reference.getImageData(0, y, width, rows).data, output.getImageData(0, y, width, rows).data, width, rows);
+        }
+        return accumulator.result();
+      } finally {
+        decoded.close();
+      }
+    } catch (error) {
+      console.warn('Could not measure output quality', error);
+      return null;
+    }
+  };
+};
+
+const measureQuality = (source: SourceImage, result: CompressionResult, background?: string): Promise<QualityScore | null> => {
+  return createQualityMeter(source, result.width, result.height, background)(result.blob);
+};
+
+/**
+ * Decodes a file, runs `task` on it and releases the decoded pixels afterwards.
+ */
+const withSource = async <T>(file: Blob, config: CompressionConfig, task: (source: SourceImage, format: OutputFormat) => Promise<T>): Promise<T> => {
+  // The blobs produced below carry the format that was actually encoded
+  const outputFormat = await resolveOutputFormat(config.outputFormat);
+  const transformed = coverSource(transformSource(await loadImage(file, config.orientation), config.transform), config);
+  const source = await watermarkSource(transformed, config.watermark);
+  try {
+    return await task(source, outputFormat);
+  } finally {
+    source.close();
+  }
+};
+
+/**
+ * Renders the original framed the way the job frames it (orientation, rotation, crop and
+ * cover resizing) at the output size, losslessly and without a watermark, so it lines up
+ * with the compressed result in a side-by-side comparison.
+ */
+export const renderReference = async (file: Blob, config: CompressionConfig): Promise<Blob> => {
+  const source = coverSource(transformSource(await loadImage(file, config.orientation), config.transform), config);
+  try {
+    const { width, height } = fitSize(source.width, source.height, config);
+    const blob = await canvasToBlob(drawSource(source, width, height).canvas, 'image/png');
+    if (!blob) {
+      throw new Error('Could not render the original');
+    }
+    return blob;
+  } finally {
+    source.close();
+  }
+};
 
 /**
  * Compresses an image file using the browser's Canvas API.
  * This runs entirely client-side without a backend.
  */
 export const compressImage = async (
-  file: File,
+  file: Blob,
   config: CompressionConfig = { quality: 0.7, maxWidth: 1920, outputFormat: 'image/jpeg' }
-): Promise<Blob> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      img.src = e.target?.result as string;
-    };
+): Promise<CompressionResult> => {
+  return withSource(file, config, (source, format) => encodeImage(source, config, format));
+};
 
-    reader.onerror = (e) => reject(e);
+// Alpha is sampled on a downscaled copy; a few soft edge pixels are enough to matter
+const ALPHA_SCAN_MAX_SIDE = 256;
 
-    img.onload = () => {
-      // 1. Calculate new dimensions while maintaining aspect ratio
-      let width = img.width;
-      let height = img.height;
+/**
+ * Detects transparency and animation. The header says whether a file can be transparent;
+ * the decoded pixels then confirm it, since many PNGs carry an alpha channel that is fully opaque.
+ */
+export const inspectImage = async (file: Blob): Promise<ImageInfo> => {
+  const info = await readImageInfo(file);
+  if (!info.hasAlpha) return info;
 
-      if (width > config.maxWidth) {
-        height = Math.round((height * config.maxWidth) / width);
-        width = config.maxWidth;
+  try {
+    const source = await loadImage(file);
+    try {
+      const scale = Math.min(1, ALPHA_SCAN_MAX_SIDE / Math.max(source.width, source.height));
+      const width = Math.max(1, Math.round(source.width * scale));
+      const height = Math.max(1, Math.round(source.height * scale));
+      const { data } = drawSource(source, width, height).ctx.getImageData(0, 0, width, height);
+      let hasAlpha = false;
+      for (let i = 3; i < data.length && !hasAlpha; i += 4) {
+        hasAlpha = data[i] < 255;
       }
+      return { ...info, hasAlpha };
+    } finally {
+      source.close();
+    }
+  } catch (error) {
+    // Trust the header if the pixels can't be read
+    console.warn('Could not scan image for transparency', error);
+    return info;
+  }
+};
+
+const MIN_SEARCH_QUALITY = 0.1;
+const MAX_SEARCH_QUALITY = 0.95;
+const QUALITY_SEARCH_STEPS = 7;
+const MIN_SEARCH_WIDTH = 320;
+const WIDTH_STEP_FACTOR = 0.8;
+
+const searchTargetSize = async (
+  source: SourceImage,
+  targetBytes: number,
+  config: CompressionConfig,
+  outputFormat: OutputFormat
+): Promise<CompressionResult & { targetMet: boolean }> => {
+  // Start from the width the height limit allows, so every step actually shrinks the output
+  let maxWidth = fitSize(source.width, source.height, config).width;
+  let smallest: CompressionResult | null = null;
 
-      // 2. Create a canvas to draw the resized image
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
+  while (true) {
+    let low = MIN_SEARCH_QUALITY;
+    let high = MAX_SEARCH_QUALITY;
+    let best: CompressionResult | null = null;
 
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
+    // Try the top of the range first: if it already fits there is nothing to search
+    const top = await encodeImage(source, { ...config, maxWidth, quality: high }, outputFormat);
+    if (top.blob.size <= targetBytes) {
+      return { ...top, targetMet: true };
+    }
+
+    for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+      const quality = Math.round(((low + high) / 2) * 100) / 100;
+      const attempt = await encodeImage(source, { ...config, maxWidth, quality }, outputFormat);
+
+      if (!smallest || attempt.blob.size < smallest.blob.size) smallest = attempt;
+
+      if (attempt.blob.size <= targetBytes) {
+        best = attempt;
+        low = quality;
+      } else {
+        high = quality;
       }
+    }
+
+    if (best) return { ...best, targetMet: true };
+
+    // Even the lowest quality probed is too large: check the floor, then shrink the image
+    const floor = await encodeImage(source, { ...config, maxWidth, quality: MIN_SEARCH_QUALITY }, outputFormat);
+    if (floor.blob.size <= targetBytes) return { ...floor, targetMet: true };
+    if (floor.blob.size < smallest!.blob.size) smallest = floor;
 
-      // 3. Draw image onto canvas
-      ctx.drawImage(img, 0, 0, width, height);
-
-      // 4. Export blob with reduced quality
-      canvas.toBlob(
-        (blob) => {
-          if (blob) {
-            resolve(blob);
-          } else {
-            reject(new Error('Compression failed'));
-          }
-        },
-        config.outputFormat,
-        config.quality
-      );
-    };
-
-    reader.readAsDataURL(file);
+    if (maxWidth <= MIN_SEARCH_WIDTH) break;
+    maxWidth = Math.max(MIN_SEARCH_WIDTH, Math.round(maxWidth * WIDTH_STEP_FACTOR));
+  }
+
+  return { ...smallest!, targetMet: false };
+};
+
+/**
+ * Compresses an image to fit within a byte budget.
+ * Binary-searches quality first and only shrinks the width when even the lowest
+ * quality is too large. If nothing fits, the smallest attempt is returned with targetMet = false.
+ */
+export const compressToTargetSize = async (
+  file: Blob,
+  targetBytes: number,
+  config: CompressionConfig = { quality: 0.7, maxWidth: 1920, outputFormat: 'image/jpeg' }
+): Promise<CompressionResult & { targetMet: boolean }> => {
+  return withSource(file, config, (source, format) => searchTargetSize(source, targetBytes, config, format));
+};
+
+const MIN_SMART_QUALITY = 0.3;
+const SMART_SEARCH_STEPS = 6;
+
+/**
+ * Binary-searches for the lowest quality whose output still scores at least `ssimFloor`.
+ * If even the top of the range falls short, that best-looking attempt is returned with targetMet = false.
+ */
+const searchSmartQuality = async (
+  source: SourceImage,
+  ssimFloor: number,
+  config: CompressionConfig,
+  outputFormat: OutputFormat
+): Promise<CompressionResult & { targetMet: boolean; score: QualityScore | null }> => {
+  const top = await encodeImage(source, { ...config, quality: MAX_SEARCH_QUALITY }, outputFormat);
+  // Candidates are judged at the size they ship at, so the floor holds for the saved file
+  const meter = createQualityMeter(source, top.width, top.height, getMatte(config, outputFormat));
+  const topScore = await meter(top.blob);
+  if (!topScore || topScore.ssim < ssimFloor) {
+    return { ...top, targetMet: false, score: topScore };
+  }
+
+  let best = { ...top, score: topScore };
+  let low = MIN_SMART_QUALITY;
+  let high = MAX_SEARCH_QUALITY;
+
+  for (let step = 0; step < SMART_SEARCH_STEPS; step++) {
+    const quality = Math.round(((low + high) / 2) * 100) / 100;
+    const attempt = await encodeImage(source, { ...config, quality }, outputFormat);
+    const score = await meter(attempt.blob);
+
+    if (score && score.ssim >= ssimFloor) {
+      // Higher quality can occasionally encode smaller, so keep the smallest passing output
+      if (attempt.blob.size < best.blob.size) best = { ...attempt, score };
+      high = quality;
+    } else {
+      low = quality;
+    }
+  }
+
+  return { ...best, targetMet: true };
+};
+
+/**
+ * Compresses an image at the lowest quality that keeps it perceptually close to the original.
+ */
+export const compressToSsimFloor = async (
+  file: Blob,
+  ssimFloor: number,
+  config: CompressionConfig = { quality: 0.7, maxWidth: 1920, outputFormat: 'image/jpeg' }
+): Promise<CompressionResult & { targetMet: boolean }> => {
+  return withSource(file, config, (source, format) => searchSmartQuality(source, ssimFloor, config, format));
+};
+
+// Standard breakpoints for responsive srcset output
+export const SRCSET_WIDTHS = [320, 640, 1024, 1920];
+
+const encodeVariants = async (
+  source: SourceImage,
+  config: CompressionConfig,
+  outputFormat: OutputFormat,
+  widths: number[]
+): Promise<ImageVariant[]> => {
+  const capped = widths.map(w => Math.min(w, fitSize(source.width, source.height, config).width));
+  const uniqueWidths = Array.from(new Set(capped)).sort((a, b) => a - b);
+
+  const variants: ImageVariant[] = [];
+  for (const width of uniqueWidths) {
+    const result = await encodeImage(source, { ...config, maxWidth: width }, outputFormat);
+    variants.push({ width: result.width, height: result.height, blob: result.blob });
+  }
+  return variants;
+};
+
+/**
+ * Encodes one copy of the image per srcset width, reusing the config's quality and format.
+ * Widths larger than the original are skipped; the original width is used instead so
+ * the largest variant is never upscaled.
+ */
+export const generateVariants = async (
+  file: Blob,
+  config: CompressionConfig,
+  widths: number[] = SRCSET_WIDTHS
+): Promise<ImageVariant[]> => {
+  return withSource(file, config, (source, format) => encodeVariants(source, config, format, widths));
+};
+
+/**
+ * Runs everything an image needs in one pass over a single decode: the main output
+ * (at a fixed quality, searched to a byte budget or to an SSIM floor) and, if requested, srcset variants
+ * at the quality the main output ended up with. The main output is also scored against the source.
+ */
+export const runCompressionJob = async (job: CompressionJob): Promise<CompressionJobResult> => {
+  return withSource(job.file, job.config, async (source, format) => {
+    let result: CompressionResult & { targetMet: boolean | null };
+    let score: QualityScore | null | undefined;
+    if (job.ssimFloor) {
+      ({ score, ...result } = await searchSmartQuality(source, job.ssimFloor, job.config, format));
+    } else if (job.targetSize) {
+      result = await searchTargetSize(source, job.targetSize, job.config, format);
+    } else {
+      result = { ...(await encodeImage(source, job.config, format)), targetMet: null };
+    }
+
+    const variants = job.generateVariants
+      ? await encodeVariants(source, { ...job.config, quality: result.quality }, format, SRCSET_WIDTHS)
+      : [];
+
+    // The smart search has already scored its result
+    if (score === undefined) score = await measureQuality(source, result, getMatte(job.config, format));
+
+    return { result, targetMet: result.targetMet, variants, score };
   });
 };
 
+/**
+ * Builds the download name for a srcset variant, e.g. "my-dog-640w.webp"
+ */
+export const getVariantFileName = (fileName: string, width: number, extension: string): string => {
+  return `${fileName || 'optimized-image'}-${width}w.${extension}`;
+};
+
 /**
  * Formats bytes into human-readable strings (KB, MB)
  */
@@ -75,11 +627,10 @@ export const formatBytes = (bytes: number, decimals = 2) => {
 /**
  * Converts a normal string title into an SEO-friendly filename.
  * Example: "My Dog Jumping" -> "my-dog-jumping"
+ * Accented letters are transliterated for the given locale rather than dropped.
  */
-export const slugify = (text: string): string => {
-  return text
-    .toString()
-    .toLowerCase()
+export const slugify = (text: string, locale = ''): string => {
+  return transliterate(text.toString(), locale)
     .trim()
     .replace(/\s+/g, '-')     // Replace spaces with -
     .replace(/[^\w-]+/g, '')  // Remove all non-word chars
@@ -0,0 +1,128 @@
+import { CropRect, ImageTransform } from '../types.ts';
+
+export interface CropPreset {
+  id: string;
+  label: string;
+  aspect: number | null; // Width / height; null = free
+  width?: number; // Exact output width the destination expects
+}
+
+export const CROP_PRESETS: CropPreset[] = [
+  { id: 'free', label: 'Free', aspect: null },
+  { id: 'og', label: 'Open Graph 1200×630', aspect: 1200 / 630, width: 1200 },
+  { id: 'square', label: 'Square 1:1', aspect: 1 },
+  { id: 'hero', label: 'Hero 16:9', aspect: 16 / 9 },
+  { id: 'portrait', label: 'Portrait 4:5', aspect: 4 / 5 }
+];
+
+export const IDENTITY_TRANSFORM: ImageTransform = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  crop: null,
+  presetId: null,
+  outputWidth: null
+};
+
+export const getCropPreset = (id: string | null): CropPreset => {
+  return CROP_PRESETS.find(p => p.id === id) ?? CROP_PRESETS[0];
+};
+
+/**
+ * Whether a transform leaves the image exactly as it was.
+ */
+export const isIdentityTransform = (transform: ImageTransform | null): boolean => {
+  return !transform || (transform.rotation === 0 && !transform.flipH && !transform.flipV && !transform.crop);
+};
+
+/**
+ * Image size after a clockwise rotation.
+ */
+export const getRotatedSize = (width: number, height: number, rotation: ImageTransform['rotation']) => {
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+/**
+ * The largest crop with the given aspect ratio, centred. `width`/`height` are the
+ * image's pixel size, needed because the crop rect itself is in fractions.
+ */
+export const centeredCrop = (aspect: number, width: number, height: number): CropRect => {
+  const cropWidth = Math.min(1, (height * aspect) / width);
+  const cropHeight = Math.min(1, width / aspect / height);
+  return { x: (1 - cropWidth) / 2, y: (1 - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+/**
+ * Keeps a crop inside the image and at least `minSize` (a fraction) on each side.
+ */
+export const clampCrop = (crop: CropRect, minSize = 0.05): CropRect => {
+  const width = Math.min(1, Math.max(minSize, crop.width));
+  const height = Math.min(1, Math.max(minSize, crop.height));
+  return {
+    x: Math.min(1 - width, Math.max(0, crop.x)),
+    y: Math.min(1 - height, Math.max(0, crop.y)),
+    width,
+    height
+  };
+};
+
+/**
+ * Per-pixel interest: local contrast (edges and texture) plus colourfulness. Flat sky,
+ * walls and studio backdrops score low, which is what a crop should give up first.
+ */
+const saliencyMap = (rgba: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+
+  const saliency = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const edge = Math.abs(luma[i + 1] - luma[i - 1]) + Math.abs(luma[i + width] - luma[i - width]);
+      const r = rgba[i * 4], g = rgba[i * 4 + 1], b = rgba[i * 4 + 2];
+      const saturation = Math.max(r, g, b) - Math.min(r, g, b);
+      saliency[i] = edge + 0.5 * saturation;
+    }
+  }
+  return saliency;
+};
+
+/**
+ * Finds the crop with the given aspect ratio that keeps the most salient region. The crop
+ * is as large as possible, so it spans the image along one axis and only slides along the other.
+ */
+export const findSalientCrop = (rgba: Uint8ClampedArray, width: number, height: number, aspect: number): CropRect => {
+  const crop = centeredCrop(aspect, width, height);
+  const slidesHorizontally = crop.width < 1;
+  const length = slidesHorizontally ? width : height;
+  const window = Math.max(1, Math.round((slidesHorizontally ? crop.width : crop.height) * length));
+  if (window >= length) return crop;
+
+  // Total saliency per column (or row), then the best window over those totals
+  const saliency = saliencyMap(rgba, width, height);
+  const totals = new Float64Array(length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      totals[slidesHorizontally ? x : y] += saliency[y * width + x];
+    }
+  }
+
+  // Ties (e.g. a flat image) go to the window nearest the centre
+  const center = (length - window) / 2;
+  let sum = 0;
+  for (let i = 0; i < window; i++) sum += totals[i];
+  let best = sum;
+  let bestStart = 0;
+  for (let start = 1; start + window <= length; start++) {
+    sum += totals[start + window - 1] - totals[start - 1];
+    if (sum > best || (sum === best && Math.abs(start - center) < Math.abs(bestStart - center))) {
+      best = sum;
+      bestStart = start;
+    }
+  }
+
+  const offset = bestStart / length;
+  return slidesHorizontally ? { ...crop, x: offset } : { ...crop, y: offset };
+};
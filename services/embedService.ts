@@ -0,0 +1,338 @@
+import { EmbedSettings, ImageMetadata, OptimizedImage } from '../types.ts';
+import { buildExportExif } from './exifService.ts';
+import { injectSvgMetadata } from './svgService.ts';
+import { crc32 } from './zipService.ts';
+
+const encoder = new TextEncoder();
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const langAlt = (tag: string, value: string): string => {
+  if (!value) return '';
+  return `   <${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>\n`;
+};
+
+/**
+ * Builds an XMP packet with Dublin Core and IPTC Core fields.
+ * dc:description carries the caption (falling back to the alt text), while
+ * the alt text also goes into the dedicated IPTC accessibility field.
+ */
+export const buildXmp = (metadata: ImageMetadata, settings: EmbedSettings): string => {
+  const description = metadata.caption || metadata.altText;
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">\n',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n',
+    '  <rdf:Description rdf:about=""\n',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"\n',
+    '    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"\n',
+    '    xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/"\n',
+    '    xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/">\n',
+    langAlt('dc:title', metadata.title),
+    langAlt('dc:description', description),
+    langAlt('Iptc4xmpCore:AltTextAccessibility', metadata.altText),
+    settings.creator ? `   <dc:creator><rdf:Seq><rdf:li>${escapeXml(settings.creator)}</rdf:li></rdf:Seq></dc:creator>\n` : '',
+    langAlt('dc:rights', settings.copyright),
+    settings.copyright ? '   <xmpRights:Marked>True</xmpRights:Marked>\n' : '',
+    metadata.title ? `   <photoshop:Headline>${escapeXml(metadata.title)}</photoshop:Headline>\n` : '',
+    settings.creator ? `   <photoshop:Credit>${escapeXml(settings.creator)}</photoshop:Credit>\n` : '',
+    '  </rdf:Description>\n',
+    ' </rdf:RDF>\n',
+    '</x:xmpmeta>\n',
+    '<?xpacket end="w"?>'
+  ].join('');
+};
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  const total = chunks.reduce((sum, c) => sum + c.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+/**
+ * Encodes a single IPTC-IIM dataset (record 2 unless stated otherwise).
+ */
+const iimDataset = (dataset: number, value: string, maxLength: number, record = 2): Uint8Array => {
+  const data = encoder.encode(value.slice(0, maxLength));
+  const header = new Uint8Array([0x1c, record, dataset, (data.length >> 8) & 0xff, data.length & 0xff]);
+  return concat([header, data]);
+};
+
+/**
+ * Builds the IPTC-IIM block read by WordPress and most DAMs (via PHP's iptcparse).
+ */
+const buildIptc = (metadata: ImageMetadata, settings: EmbedSettings): Uint8Array => {
+  const datasets: Uint8Array[] = [
+    // 1:90 Coded Character Set = UTF-8
+    concat([new Uint8Array([0x1c, 1, 90, 0, 3]), new Uint8Array([0x1b, 0x25, 0x47])])
+  ];
+  if (metadata.title) {
+    datasets.push(iimDataset(5, metadata.title, 64));    // Object Name
+    datasets.push(iimDataset(105, metadata.title, 256)); // Headline
+  }
+  const description = metadata.caption || metadata.altText;
+  if (description) datasets.push(iimDataset(120, description, 2000)); // Caption/Abstract
+  if (settings.creator) {
+    datasets.push(iimDataset(80, settings.creator, 32));   // By-line
+    datasets.push(iimDataset(110, settings.creator, 32));  // Credit
+  }
+  if (settings.copyright) datasets.push(iimDataset(116, settings.copyright, 128)); // Copyright Notice
+  return concat(datasets);
+};
+
+/**
+ * Wraps a payload in a JPEG APPn segment.
+ */
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const length = payload.length + 2;
+  if (length > 0xffff) throw new Error('Metadata segment too large for JPEG');
+  return concat([new Uint8Array([0xff, marker, (length >> 8) & 0xff, length & 0xff]), payload]);
+};
+
+/**
+ * Inserts segments into a JPEG right after SOI (and after the JFIF APP0 segment if present).
+ */
+export const insertJpegSegments = (bytes: Uint8Array, segments: Uint8Array[]): Uint8Array => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG file');
+
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const embedJpeg = (bytes: Uint8Array, metadata: ImageMetadata, settings: EmbedSettings, exif: Uint8Array | null): Uint8Array => {
+  const segments: Uint8Array[] = [];
+
+  // EXIF must come first so readers that only check the first APP1 find it
+  if (exif) {
+    segments.push(jpegSegment(0xe1, concat([encoder.encode('Exif\0\0'), exif])));
+  }
+
+  if (settings.enabled) {
+    const xmp = concat([encoder.encode('http://ns.adobe.com/xap/1.0/\0'), encoder.encode(buildXmp(metadata, settings))]);
+
+    // Photoshop image resource block holding the IPTC-IIM record (resource id 0x0404)
+    const iptc = buildIptc(metadata, settings);
+    const padded = iptc.length % 2 ? concat([iptc, new Uint8Array([0])]) : iptc;
+    const resourceHeader = new Uint8Array([
+      ...encoder.encode('8BIM'), 0x04, 0x04, 0x00, 0x00,
+      (iptc.length >>> 24) & 0xff, (iptc.length >>> 16) & 0xff, (iptc.length >>> 8) & 0xff, iptc.length & 0xff
+    ]);
+    const photoshop = concat([encoder.encode('Photoshop 3.0\0'), resourceHeader, padded]);
+
+    segments.push(jpegSegment(0xe1, xmp), jpegSegment(0xed, photoshop));
+  }
+
+  return insertJpegSegments(bytes, segments);
+};
+
+const readFourCC = (bytes: Uint8Array, offset: number): string => {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+};
+
+const riffChunk = (fourCC: string, data: Uint8Array): Uint8Array => {
+  const header = new DataView(new ArrayBuffer(8));
+  encoder.encode(fourCC).forEach((b, i) => header.setUint8(i, b));
+  header.setUint32(4, data.length, true);
+  const pad = data.length % 2 ? [new Uint8Array([0])] : [];
+  return concat([new Uint8Array(header.buffer), data, ...pad]);
+};
+
+/**
+ * Splits a WebP file into its RIFF chunks.
+ */
+export const parseWebpChunks = (bytes: Uint8Array): { fourCC: string; data: Uint8Array }[] => {
+  if (readFourCC(bytes, 0) !== 'RIFF' || readFourCC(bytes, 8) !== 'WEBP') throw new Error('Not a WebP file');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { fourCC: string; data: Uint8Array }[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const fourCC = readFourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourCC, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+/**
+ * Reassembles RIFF chunks into a WebP file, converting simple (VP8/VP8L) files to
+ * the extended VP8X layout, which is required for metadata chunks.
+ */
+export const buildWebp = (
+  chunks: { fourCC: string; data: Uint8Array }[],
+  width: number,
+  height: number,
+  flags: number
+): Uint8Array => {
+  let vp8x = chunks.find(c => c.fourCC === 'VP8X');
+  const body = chunks.filter(c => c.fourCC !== 'VP8X');
+
+  if (!vp8x) {
+    const data = new Uint8Array(10);
+    // Lossless bitstreams carry an alpha hint in bit 28 of their header
+    const vp8l = chunks.find(c => c.fourCC === 'VP8L');
+    const hasAlpha = !!vp8l && (vp8l.data[4] & 0x10) !== 0;
+    data[0] = hasAlpha ? 0x10 : 0;
+    const w = width - 1;
+    const h = height - 1;
+    data.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+    vp8x = { fourCC: 'VP8X', data };
+  }
+
+  const header = new Uint8Array(vp8x.data);
+  header[0] |= flags;
+
+  const payload = concat([
+    encoder.encode('WEBP'),
+    riffChunk('VP8X', header),
+    ...body.map(c => riffChunk(c.fourCC, c.data))
+  ]);
+  const riffHeader = new DataView(new ArrayBuffer(8));
+  encoder.encode('RIFF').forEach((b, i) => riffHeader.setUint8(i, b));
+  riffHeader.setUint32(4, payload.length, true);
+  return concat([new Uint8Array(riffHeader.buffer), payload]);
+};
+
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+const embedWebp = (
+  bytes: Uint8Array,
+  metadata: ImageMetadata,
+  settings: EmbedSettings,
+  exif: Uint8Array | null,
+  width: number,
+  height: number
+): Uint8Array => {
+  let flags = 0;
+  const chunks = parseWebpChunks(bytes).filter(c => c.fourCC !== 'XMP ' && c.fourCC !== 'EXIF');
+  if (exif) {
+    chunks.push({ fourCC: 'EXIF', data: exif });
+    flags |= WEBP_EXIF_FLAG;
+  }
+  if (settings.enabled) {
+    chunks.push({ fourCC: 'XMP ', data: encoder.encode(buildXmp(metadata, settings)) });
+    flags |= WEBP_XMP_FLAG;
+  }
+  return buildWebp(chunks, width, height, flags);
+};
+
+const PNG_SIGNATURE_LENGTH = 8;
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+/**
+ * Splits a PNG into its chunks, after the 8-byte signature.
+ */
+const parsePngChunks = (bytes: Uint8Array): { type: string; data: Uint8Array }[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readFourCC(bytes, offset + 4);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeAndData = concat([encoder.encode(type), data]);
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return out;
+};
+
+/**
+ * An uncompressed international text chunk: keyword, flags, empty language and translated keyword, UTF-8 text.
+ */
+const itxtChunk = (keyword: string, text: string): Uint8Array => {
+  return pngChunk('iTXt', concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+};
+
+const isXmpChunk = (chunk: { type: string; data: Uint8Array }): boolean => {
+  return chunk.type === 'iTXt' && new TextDecoder().decode(chunk.data.subarray(0, PNG_XMP_KEYWORD.length + 1)) === `${PNG_XMP_KEYWORD}\0`;
+};
+
+/**
+ * Writes EXIF as an eXIf chunk and the descriptive fields as XMP plus the standard PNG text
+ * keywords, which many viewers show instead of XMP. Everything goes before the image data,
+ * where readers look for it.
+ */
+const embedPng = (bytes: Uint8Array, metadata: ImageMetadata, settings: EmbedSettings, exif: Uint8Array | null): Uint8Array => {
+  const added: Uint8Array[] = [];
+  if (exif) {
+    added.push(pngChunk('eXIf', exif));
+  }
+  if (settings.enabled) {
+    added.push(itxtChunk(PNG_XMP_KEYWORD, buildXmp(metadata, settings)));
+    const text: [string, string][] = [
+      ['Title', metadata.title],
+      ['Description', metadata.caption || metadata.altText],
+      ['Author', settings.creator],
+      ['Copyright', settings.copyright]
+    ];
+    for (const [keyword, value] of text) {
+      if (value) added.push(itxtChunk(keyword, value));
+    }
+  }
+
+  const chunks = parsePngChunks(bytes).filter(c => c.type !== 'eXIf' && !isXmpChunk(c));
+  const firstData = chunks.findIndex(c => c.type === 'IDAT');
+  const encoded = chunks.map(c => pngChunk(c.type, c.data));
+  encoded.splice(firstData === -1 ? 1 : firstData, 0, ...added);
+  return concat([bytes.subarray(0, PNG_SIGNATURE_LENGTH), ...encoded]);
+};
+
+/**
+ * Formats that can carry embedded metadata.
+ */
+export const supportsEmbedding = (mimeType: string): boolean => {
+  return mimeType === 'image/jpeg' || mimeType === 'image/webp' || mimeType === 'image/png';
+};
+
+/**
+ * Writes the image's EXIF (filtered by its privacy policy) and, if enabled in both the settings
+ * and the image's profile, title, caption, alt text and rights into an exported file. `size` is
+ * the pixel size of that file, which differs from the image's for srcset variants.
+ * SVGs always get <title> and <desc>, since they are the SVG's accessible name rather than hidden metadata.
+ * Returns the blob unchanged when there is nothing to write or the format can't carry it.
+ */
+export const embedMetadata = async (
+  blob: Blob,
+  image: OptimizedImage,
+  settings: EmbedSettings,
+  size: { width: number; height: number } = image
+): Promise<Blob> => {
+  if (blob.type === 'image/svg+xml') return injectSvgMetadata(blob, image.metadata);
+
+  // The image's profile can turn descriptive metadata off, e.g. for thumbnails
+  const effective = image.writeMetadata ? settings : { ...settings, enabled: false };
+  const exif = buildExportExif(image.exif, image.exifPolicy);
+  if ((!effective.enabled && !exif) || !supportsEmbedding(blob.type)) return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let output: Uint8Array;
+  if (blob.type === 'image/jpeg') output = embedJpeg(bytes, image.metadata, effective, exif);
+  else if (blob.type === 'image/png') output = embedPng(bytes, image.metadata, effective, exif);
+  else output = embedWebp(bytes, image.metadata, effective, exif, size.width, size.height);
+  return new Blob([output as BlobPart], { type: blob.type });
+};
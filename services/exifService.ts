@@ -0,0 +1,327 @@
+import { ExifData, ExifEntry, ExifIfd, ExifPolicy } from '../types.ts';
+
+// Byte size of each supported TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const EXIF_POINTER = 0x8769;
+const GPS_POINTER = 0x8825;
+const ORIENTATION = 0x0112;
+
+const TAG_NAMES: Record<ExifIfd, Record<number, string>> = {
+  image: {
+    0x010e: 'Image Description', 0x010f: 'Make', 0x0110: 'Model', 0x0112: 'Orientation',
+    0x011a: 'X Resolution', 0x011b: 'Y Resolution', 0x0128: 'Resolution Unit', 0x0131: 'Software',
+    0x0132: 'Date Time', 0x013b: 'Artist', 0x0213: 'YCbCr Positioning', 0x8298: 'Copyright'
+  },
+  exif: {
+    0x829a: 'Exposure Time', 0x829d: 'F-Number', 0x8822: 'Exposure Program', 0x8827: 'ISO',
+    0x9000: 'Exif Version', 0x9003: 'Date Taken', 0x9004: 'Date Digitized', 0x9201: 'Shutter Speed',
+    0x9202: 'Aperture', 0x9204: 'Exposure Bias', 0x9207: 'Metering Mode', 0x9209: 'Flash',
+    0x920a: 'Focal Length', 0x927c: 'Maker Note', 0x9286: 'User Comment', 0xa001: 'Color Space',
+    0xa002: 'Pixel Width', 0xa003: 'Pixel Height', 0xa402: 'Exposure Mode', 0xa403: 'White Balance',
+    0xa405: 'Focal Length (35mm)', 0xa406: 'Scene Capture Type', 0xa430: 'Camera Owner',
+    0xa431: 'Body Serial Number', 0xa433: 'Lens Make', 0xa434: 'Lens Model'
+  },
+  gps: {
+    0x0000: 'GPS Version', 0x0001: 'Latitude Ref', 0x0002: 'Latitude', 0x0003: 'Longitude Ref',
+    0x0004: 'Longitude', 0x0005: 'Altitude Ref', 0x0006: 'Altitude', 0x0007: 'GPS Time',
+    0x0010: 'Direction Ref', 0x0011: 'Direction', 0x001d: 'GPS Date'
+  }
+};
+
+// Tags kept by the "copyright & camera" policy
+const RIGHTS_AND_CAMERA_TAGS: Record<ExifIfd, number[]> = {
+  image: [0x010f, 0x0110, 0x013b, 0x8298],
+  exif: [0x829a, 0x829d, 0x8822, 0x8827, 0x9003, 0x9209, 0x920a, 0xa405, 0xa433, 0xa434],
+  gps: []
+};
+
+// Tags that are wrong or meaningless after re-encoding: the pixels are already upright and
+// resized, and maker notes contain offsets that break when moved
+const STALE_TAGS: Record<ExifIfd, number[]> = {
+  image: [ORIENTATION],
+  exif: [0x927c, 0xa002, 0xa003, 0xa005],
+  gps: []
+};
+
+export const EXIF_POLICIES: { value: ExifPolicy; label: string; description: string }[] = [
+  { value: 'strip-all', label: 'Strip all', description: 'Remove every EXIF tag' },
+  { value: 'keep-copyright-camera', label: 'Keep copyright & camera', description: 'Artist, copyright, camera and exposure only' },
+  { value: 'keep-except-gps', label: 'Keep all except GPS', description: 'Everything but location data' },
+];
+
+/**
+ * Finds the TIFF block of an EXIF payload inside a JPEG (APP1) or WebP (EXIF chunk).
+ */
+const findTiff = (bytes: Uint8Array): Uint8Array | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (marker === 0xda) break; // Start of scan: no more metadata segments
+      if (marker === 0xe1 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) === 'Exif') {
+        return bytes.subarray(offset + 10, offset + 2 + length);
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  const isWebp = String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP';
+  if (isWebp) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const fourCC = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+      const size = view.getUint32(offset + 4, true);
+      if (fourCC === 'EXIF') {
+        const data = bytes.subarray(offset + 8, offset + 8 + size);
+        // Some encoders keep the JPEG-style "Exif\0\0" prefix
+        return String.fromCharCode(...data.subarray(0, 4)) === 'Exif' ? data.subarray(6) : data;
+      }
+      offset += 8 + size + (size % 2);
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads the entries of one IFD, following the Exif and GPS sub-IFD pointers from IFD0.
+ */
+const readIfd = (view: DataView, start: number, little: boolean, ifd: ExifIfd, entries: ExifEntry[]) => {
+  if (start + 2 > view.byteLength) return;
+  const count = view.getUint16(start, little);
+
+  for (let i = 0; i < count; i++) {
+    const entryOffset = start + 2 + i * 12;
+    if (entryOffset + 12 > view.byteLength) return;
+
+    const tag = view.getUint16(entryOffset, little);
+    const type = view.getUint16(entryOffset + 2, little);
+    const valueCount = view.getUint32(entryOffset + 4, little);
+
+    if (ifd === 'image' && (tag === EXIF_POINTER || tag === GPS_POINTER)) {
+      const pointer = view.getUint32(entryOffset + 8, little);
+      readIfd(view, pointer, little, tag === EXIF_POINTER ? 'exif' : 'gps', entries);
+      continue;
+    }
+
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const byteLength = size * valueCount;
+    const dataOffset = byteLength > 4 ? view.getUint32(entryOffset + 8, little) : entryOffset + 8;
+    if (dataOffset + byteLength > view.byteLength) continue;
+
+    let value: number[] | Uint8Array;
+    if (type === 1 || type === 2 || type === 7) {
+      value = new Uint8Array(view.buffer, view.byteOffset + dataOffset, byteLength).slice();
+    } else {
+      value = [];
+      for (let n = 0; n < valueCount; n++) {
+        const at = dataOffset + n * size;
+        if (type === 3) value.push(view.getUint16(at, little));
+        else if (type === 4) value.push(view.getUint32(at, little));
+        else if (type === 9) value.push(view.getInt32(at, little));
+        else if (type === 5) value.push(view.getUint32(at, little), view.getUint32(at + 4, little));
+        else if (type === 10) value.push(view.getInt32(at, little), view.getInt32(at + 4, little));
+      }
+    }
+    entries.push({ ifd, tag, type, count: valueCount, value });
+  }
+};
+
+/**
+ * Parses the EXIF tags of a JPEG or WebP file. Returns null when there are none.
+ */
+export const readExif = async (file: Blob): Promise<ExifData | null> => {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const tiff = findTiff(bytes);
+    if (!tiff || tiff.length < 8) return null;
+
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const little = view.getUint16(0) === 0x4949; // "II"
+    if (view.getUint16(2, little) !== 42) return null;
+
+    const entries: ExifEntry[] = [];
+    readIfd(view, view.getUint32(4, little), little, 'image', entries);
+    if (entries.length === 0) return null;
+
+    const orientationEntry = entries.find(e => e.ifd === 'image' && e.tag === ORIENTATION);
+    const orientation = orientationEntry && Array.isArray(orientationEntry.value) ? orientationEntry.value[0] : 1;
+
+    return {
+      entries,
+      orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+      hasGps: entries.some(e => e.ifd === 'gps')
+    };
+  } catch (e) {
+    console.error("EXIF parsing failed", e);
+    return null;
+  }
+};
+
+/**
+ * Selects the entries that survive the given privacy policy.
+ */
+export const filterExif = (exif: ExifData | null, policy: ExifPolicy): ExifEntry[] => {
+  if (!exif || policy === 'strip-all') return [];
+  return exif.entries.filter(e => {
+    if (e.ifd === 'gps' || STALE_TAGS[e.ifd].includes(e.tag)) return false;
+    return policy === 'keep-except-gps' || RIGHTS_AND_CAMERA_TAGS[e.ifd].includes(e.tag);
+  });
+};
+
+const entryByteLength = (e: ExifEntry) => TYPE_SIZES[e.type] * e.count;
+
+const ifdSize = (entries: ExifEntry[], pointers: number) => {
+  const data = entries.reduce((sum, e) => {
+    const length = entryByteLength(e);
+    return length > 4 ? sum + length + (length % 2) : sum;
+  }, 0);
+  return 2 + (entries.length + pointers) * 12 + 4 + data;
+};
+
+/**
+ * Writes one IFD (entries sorted by tag) plus its out-of-line values at `start`.
+ */
+const writeIfd = (view: DataView, start: number, entries: ExifEntry[], pointers: { tag: number; offset: number }[]) => {
+  const all = [
+    ...entries.map(e => ({ tag: e.tag, entry: e as ExifEntry | null, pointer: 0 })),
+    ...pointers.map(p => ({ tag: p.tag, entry: null, pointer: p.offset }))
+  ].sort((a, b) => a.tag - b.tag);
+
+  view.setUint16(start, all.length, true);
+  let dataOffset = start + 2 + all.length * 12 + 4;
+
+  all.forEach(({ tag, entry, pointer }, i) => {
+    const at = start + 2 + i * 12;
+    view.setUint16(at, tag, true);
+
+    if (!entry) {
+      view.setUint16(at + 2, 4, true);
+      view.setUint32(at + 4, 1, true);
+      view.setUint32(at + 8, pointer, true);
+      return;
+    }
+
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, entry.count, true);
+
+    const length = entryByteLength(entry);
+    let valueAt = at + 8;
+    if (length > 4) {
+      view.setUint32(at + 8, dataOffset, true);
+      valueAt = dataOffset;
+      dataOffset += length + (length % 2);
+    }
+
+    if (entry.value instanceof Uint8Array) {
+      entry.value.forEach((b, n) => view.setUint8(valueAt + n, b));
+    } else {
+      const size = entry.type === 5 || entry.type === 10 ? 4 : TYPE_SIZES[entry.type];
+      entry.value.forEach((v, n) => {
+        const o = valueAt + n * size;
+        if (size === 2) view.setUint16(o, v, true);
+        else if (entry.type === 9 || entry.type === 10) view.setInt32(o, v, true);
+        else view.setUint32(o, v, true);
+      });
+    }
+  });
+
+  view.setUint32(start + 2 + all.length * 12, 0, true); // No next IFD
+};
+
+/**
+ * Serializes EXIF entries into a little-endian TIFF block.
+ * Returns null when nothing is left to write.
+ */
+export const writeExif = (entries: ExifEntry[]): Uint8Array | null => {
+  if (entries.length === 0) return null;
+
+  const image = entries.filter(e => e.ifd === 'image');
+  const exif = entries.filter(e => e.ifd === 'exif');
+  const gps = entries.filter(e => e.ifd === 'gps');
+  const pointerCount = (exif.length ? 1 : 0) + (gps.length ? 1 : 0);
+
+  const imageOffset = 8;
+  const exifOffset = imageOffset + ifdSize(image, pointerCount);
+  const gpsOffset = exifOffset + (exif.length ? ifdSize(exif, 0) : 0);
+  const total = gpsOffset + (gps.length ? ifdSize(gps, 0) : 0);
+
+  const view = new DataView(new ArrayBuffer(total));
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, imageOffset, true);
+
+  const pointers: { tag: number; offset: number }[] = [];
+  if (exif.length) pointers.push({ tag: EXIF_POINTER, offset: exifOffset });
+  if (gps.length) pointers.push({ tag: GPS_POINTER, offset: gpsOffset });
+
+  writeIfd(view, imageOffset, image, pointers);
+  if (exif.length) writeIfd(view, exifOffset, exif, []);
+  if (gps.length) writeIfd(view, gpsOffset, gps, []);
+
+  return new Uint8Array(view.buffer);
+};
+
+/**
+ * Builds the EXIF block to embed in an export, or null if the policy strips everything.
+ */
+export const buildExportExif = (exif: ExifData | null, policy: ExifPolicy): Uint8Array | null => {
+  return writeExif(filterExif(exif, policy));
+};
+
+const formatRational = (num: number, den: number) => {
+  if (den === 0) return '0';
+  if (num < den && num !== 0 && den % num === 0) return `1/${den / num}`;
+  return String(Math.round((num / den) * 100) / 100);
+};
+
+/**
+ * Returns a display name and value for an EXIF entry.
+ */
+export const describeExifEntry = (entry: ExifEntry): { name: string; value: string } => {
+  const name = TAG_NAMES[entry.ifd][entry.tag] || `Tag 0x${entry.tag.toString(16).padStart(4, '0')}`;
+
+  let value: string;
+  if (entry.value instanceof Uint8Array) {
+    value = entry.type === 2
+      ? new TextDecoder().decode(entry.value).replace(/\0+$/, '').trim()
+      : `${entry.count} bytes`;
+  } else if (entry.type === 5 || entry.type === 10) {
+    const parts: string[] = [];
+    for (let i = 0; i < entry.value.length; i += 2) parts.push(formatRational(entry.value[i], entry.value[i + 1]));
+    value = parts.join(', ');
+  } else {
+    value = entry.value.join(', ');
+  }
+  return { name, value };
+};
+
+/**
+ * Converts the GPS IFD to decimal coordinates, if both latitude and longitude are present.
+ */
+export const getGpsCoordinates = (exif: ExifData): { latitude: number; longitude: number } | null => {
+  const find = (tag: number) => exif.entries.find(e => e.ifd === 'gps' && e.tag === tag);
+  const toDecimal = (entry?: ExifEntry) => {
+    if (!entry || entry.value instanceof Uint8Array || entry.value.length < 6) return null;
+    const [d, dd, m, md, s, sd] = entry.value;
+    return d / (dd || 1) + m / (md || 1) / 60 + s / (sd || 1) / 3600;
+  };
+  const ref = (tag: number) => {
+    const entry = find(tag);
+    return entry?.value instanceof Uint8Array ? String.fromCharCode(entry.value[0]) : '';
+  };
+
+  const latitude = toDecimal(find(0x0002));
+  const longitude = toDecimal(find(0x0004));
+  if (latitude === null || longitude === null) return null;
+  return {
+    latitude: ref(0x0001) === 'S' ? -latitude : latitude,
+    longitude: ref(0x0003) === 'W' ? -longitude : longitude
+  };
+};
@@ -0,0 +1,161 @@
+import { EmbedSettings, LocalizedMetadata, OptimizedImage } from '../types.ts';
+import { getExtension, getVariantFileName } from './compressionService.ts';
+import { createZip, ZipEntry } from './zipService.ts';
+import { embedMetadata } from './embedService.ts';
+import { joinUrl } from './markupService.ts';
+
+export interface ManifestEntry {
+  file: string;
+  title: string;
+  altText: string;
+  caption: string;
+  originalSize: number;
+  optimizedSize: number;
+  quality: number;
+  format: string;
+  width: number;
+  height: number;
+  variants: string[];
+  translations: Record<string, LocalizedMetadata>;
+}
+
+/**
+ * The base file name an image is exported under, before repeats are numbered.
+ */
+export const getBaseFileName = (image: OptimizedImage): string => image.metadata.fileName || 'optimized-image';
+
+/**
+ * Assigns every image a unique base file name.
+ * Repeated slugs get a numeric suffix: "dog", "dog-2", "dog-3".
+ */
+export const dedupeFileNames = (images: OptimizedImage[]): Map<string, string> => {
+  const used = new Set<string>();
+  const names = new Map<string, string>();
+
+  for (const image of images) {
+    const base = getBaseFileName(image);
+    let name = base;
+    let counter = 2;
+    while (used.has(name)) {
+      name = `${base}-${counter++}`;
+    }
+    used.add(name);
+    names.set(image.id, name);
+  }
+  return names;
+};
+
+/**
+ * Describes each exported image: its file name, metadata and compression results.
+ */
+export const buildManifest = (images: OptimizedImage[], names = dedupeFileNames(images)): ManifestEntry[] => {
+  return images.map(image => {
+    const format = image.compressedBlob?.type || image.outputFormat;
+    const extension = getExtension(format);
+    const name = names.get(image.id) || getBaseFileName(image);
+
+    return {
+      file: `${name}.${extension}`,
+      title: image.metadata.title,
+      altText: image.metadata.altText,
+      caption: image.metadata.caption,
+      originalSize: image.originalSize,
+      optimizedSize: image.compressedSize,
+      quality: image.currentQuality,
+      format,
+      width: image.width,
+      height: image.height,
+      variants: image.variants.map(v => getVariantFileName(name, v.width, extension)),
+      translations: image.metadata.translations
+    };
+  });
+};
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flattens the manifest into CSV for spreadsheets and CMS importers.
+ */
+export const manifestToCsv = (entries: ManifestEntry[]): string => {
+  const header = ['file', 'title', 'altText', 'caption', 'originalSize', 'optimizedSize', 'quality', 'format', 'width', 'height', 'variants'];
+  const rows = entries.map(e => [
+    e.file, e.title, e.altText, e.caption, e.originalSize, e.optimizedSize,
+    e.quality, e.format, e.width, e.height, e.variants.join(' ')
+  ].map(escapeCsv).join(','));
+  return [header.join(','), ...rows].join('\r\n');
+};
+
+/**
+ * Whether an image has an output that can be exported.
+ */
+export const isExportable = (image: OptimizedImage): boolean => image.status === 'done' && !!image.compressedBlob;
+
+export interface PublishedImage {
+  image: OptimizedImage;
+  name: string; // File name without extension, unique within the export
+  url: string;
+  variantUrls: string[];
+}
+
+/**
+ * The URLs an image and its variants will have once uploaded under `baseUrl` as `name`.
+ */
+export const publishImage = (image: OptimizedImage, name: string, baseUrl: string): PublishedImage => {
+  const extension = getExtension(image.compressedBlob?.type || image.outputFormat);
+  return {
+    image,
+    name,
+    url: joinUrl(baseUrl, `${name}.${extension}`),
+    variantUrls: image.variants.map(v => joinUrl(baseUrl, getVariantFileName(name, v.width, extension)))
+  };
+};
+
+/**
+ * The finished images with the URLs they'll have once uploaded under `baseUrl`. File names
+ * match the batch export, so snippets point at the files that were actually downloaded.
+ */
+export const toPublishedImages = (images: OptimizedImage[], baseUrl: string): PublishedImage[] => {
+  const done = images.filter(isExportable);
+  const names = dedupeFileNames(done);
+  return done.map(image => publishImage(image, names.get(image.id)!, baseUrl));
+};
+
+/**
+ * Every finished image, its srcset variants and a manifest in JSON and CSV, as named files.
+ * Embedded metadata is written at export time so later edits to the fields are included.
+ * `extraEntries` are added as they are, e.g. the structured data files.
+ */
+export const buildExportEntries = async (images: OptimizedImage[], embedSettings: EmbedSettings, extraEntries: ZipEntry[] = []): Promise<ZipEntry[]> => {
+  const done = images.filter(isExportable);
+  const names = dedupeFileNames(done);
+  const manifest = buildManifest(done, names);
+  const entries: ZipEntry[] = [];
+
+  for (const [index, image] of done.entries()) {
+    entries.push({
+      name: manifest[index].file,
+      data: await embedMetadata(image.compressedBlob!, image, embedSettings)
+    });
+    for (const [i, variant] of image.variants.entries()) {
+      entries.push({
+        name: manifest[index].variants[i],
+        data: await embedMetadata(variant.blob, image, embedSettings, variant)
+      });
+    }
+  }
+
+  entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+  entries.push({ name: 'manifest.csv', data: manifestToCsv(manifest) });
+  entries.push(...extraEntries);
+  return entries;
+};
+
+/**
+ * Builds a ZIP with the files from `buildExportEntries`.
+ */
+export const buildBatchZip = async (images: OptimizedImage[], embedSettings: EmbedSettings, extraEntries: ZipEntry[] = []): Promise<Blob> => {
+  return createZip(await buildExportEntries(images, embedSettings, extraEntries));
+};
@@ -1,45 +1,93 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ImageMetadata } from "../types.ts";
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { MetadataProvider, ProjectContext } from "../types.ts";
+import { buildMetadataPrompt, fileToBase64, parseMetadataJson } from "./metadataUtils.ts";
+import { MetadataError } from "./aiErrors.ts";
+import { getLocaleLabel } from "./localeService.ts";
 
-// Initialize Gemini
-// Note: process.env.API_KEY is handled by the environment as per instructions
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const SAFETY_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
 
-/**
- * Converts a File object to Base64 string for Gemini
- */
-const fileToGenerativePart = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      // Remove data url prefix (e.g. "data:image/jpeg;base64,")
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+const FIELDS = ["title", "altText", "caption", "fileName"];
+
+const fieldDescription = (base: string, language: string): string => {
+  return language ? `${base}, written in ${getLocaleLabel(language)}` : base;
+};
+
+// The four metadata fields, described for one language
+const localizedSchema = (language: string): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: fieldDescription('Title, max 60 chars', language) },
+    altText: { type: Type.STRING, description: fieldDescription('Alt text, max 100 chars', language) },
+    caption: { type: Type.STRING, description: fieldDescription('Caption', language) },
+    fileName: { type: Type.STRING, description: 'Lowercase ASCII, hyphen-separated, no extension' }
+  },
+  required: FIELDS
+});
+
+const buildResponseSchema = (context: ProjectContext): Schema => {
+  const schema = localizedSchema(context.language);
+  if (context.translationLocales.length === 0) return schema;
+
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      translations: {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(context.translationLocales.map(code => [code, localizedSchema(code)])),
+        required: context.translationLocales
+      }
+    },
+    required: [...FIELDS, "translations"]
+  };
+};
+
+// A blocked request comes back as a normal response with no text
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new MetadataError('safety', `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_REASONS.includes(finishReason)) {
+    throw new MetadataError('safety', `Response blocked: ${finishReason}`);
+  }
+};
+
+// Clients are created on first use and reused for the same key and endpoint
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (apiKey: string, endpoint: string): GoogleGenAI => {
+  const cacheKey = `${apiKey}|${endpoint}`;
+  let client = clients.get(cacheKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey, httpOptions: endpoint ? { baseUrl: endpoint } : undefined });
+    clients.set(cacheKey, client);
+  }
+  return client;
 };
 
 /**
- * Analyzes the image and generates SEO metadata
+ * Google Gemini, using its native JSON schema support
  */
-export const generateImageMetadata = async (file: File): Promise<ImageMetadata> => {
-  try {
-    const base64Data = await fileToGenerativePart(file);
+export const geminiProvider: MetadataProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-3-flash-preview',
+  defaultEndpoint: '',
+  apiKey: 'required',
 
-    const prompt = `
-      Analyze this image for a blog post. Provide SEO-friendly metadata.
-      1. A short, descriptive title (max 60 chars).
-      2. An alt text description (max 100 chars) describing the image content for accessibility.
-      3. A caption that could be used under the image in an article.
-      4. A filename suggestion based on the title (lowercase, hyphen-separated).
-    `;
+  generate: async (file, config, context) => {
+    const base64Data = await fileToBase64(file);
+    const ai = getClient(config.apiKey || '', config.endpoint);
 
-    // Using gemini-3-flash-preview as it supports multimodal input and JSON schema responses
     const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+      model: config.model,
       contents: {
         parts: [
           {
@@ -48,47 +96,22 @@ export const generateImageMetadata = async (file: File): Promise<ImageMetadata>
               data: base64Data
             }
           },
-          { text: prompt }
+          { text: buildMetadataPrompt(context) }
         ]
       },
       config: {
+        abortSignal: config.signal,
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            altText: { type: Type.STRING },
-            caption: { type: Type.STRING },
-            fileName: { type: Type.STRING }
-          },
-          required: ["title", "altText", "caption", "fileName"]
-        }
+        responseSchema: buildResponseSchema(context)
       }
     });
 
-    // Check if text exists before parsing
-    const text = response.text;
-    if (!text) {
-      throw new Error("No response text from Gemini");
-    }
-
-    const result = JSON.parse(text);
+    checkBlocked(response);
+    return parseMetadataJson(response.text, context);
+  },
 
-    return {
-      title: result.title || "Untitled Image",
-      altText: result.altText || "Image description",
-      caption: result.caption || "",
-      fileName: result.fileName || "image"
-    };
-
-  } catch (error) {
-    console.error("Gemini Analysis Failed:", error);
-    // Return empty defaults on failure
-    return {
-      title: "",
-      altText: "",
-      caption: "",
-      fileName: file.name.split('.')[0] // Default to current name without extension
-    };
+  validateKey: async (config) => {
+    // Fetching a model's details is free and fails fast on a bad key
+    await getClient(config.apiKey || '', config.endpoint).models.get({ model: config.model });
   }
-};
\ No newline at end of file
+};
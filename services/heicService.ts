@@ -0,0 +1,25 @@
+/**
+ * iPhone photos. Browsers other than Safari can't decode them and often leave `type` empty,
+ * so the extension is checked too.
+ */
+export const isHeicFile = (file: File): boolean => {
+  return /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+};
+
+/**
+ * Decodes a HEIC/HEIF file to a PNG the rest of the pipeline can read. For image sequences
+ * (bursts, Live Photos) only the primary image is kept.
+ */
+export const decodeHeic = async (file: File): Promise<File> => {
+  // The decoder is over 1 MB, so it's only loaded once a HEIC file turns up
+  const { default: heic2any } = await import('heic2any');
+  let output: Blob | Blob[];
+  try {
+    output = await heic2any({ blob: file, toType: 'image/png' });
+  } catch (error) {
+    console.warn('HEIC decoding failed', error);
+    throw new Error('This HEIC file could not be decoded. Try exporting it as JPEG from your photo app.');
+  }
+  const png = Array.isArray(output) ? output[0] : output;
+  return new File([png], file.name.replace(/\.hei[cf]$/i, '') + '.png', { type: 'image/png' });
+};
@@ -0,0 +1,134 @@
+import { writeExif } from './exifService.ts';
+import { insertJpegSegments } from './embedService.ts';
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * Creates a canvas that works both on the main thread and inside a Web Worker.
+ */
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Exports a canvas to a blob. Resolves null when encoding fails.
+ */
+const canvasToBlob = (canvas: AnyCanvas, type: string, quality?: number): Promise<Blob | null> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality }).catch(() => null);
+  }
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+};
+
+let orientationSupport: Promise<boolean> | null = null;
+
+/**
+ * Detects whether <img> decoding already rotates images according to their EXIF orientation
+ * (all current browsers do; older ones draw the raw sensor pixels).
+ * A 2x1 JPEG tagged with orientation 6 decodes as 1x2 when it is applied.
+ */
+const browserAppliesOrientation = (): Promise<boolean> => {
+  if (!orientationSupport) {
+    orientationSupport = canvasToBlob(createCanvas(2, 1), 'image/jpeg').then(async (blob) => {
+      if (!blob) return true;
+      const exif = writeExif([{ ifd: 'image', tag: 0x0112, type: 3, count: 1, value: [6] }])!;
+      const header = new Uint8Array([0xff, 0xe1, ((exif.length + 8) >> 8) & 0xff, (exif.length + 8) & 0xff, 0x45, 0x78, 0x69, 0x66, 0, 0]);
+      const tagged = insertJpegSegments(new Uint8Array(await blob.arrayBuffer()), [header, exif]);
+
+      return new Promise<boolean>((resolve) => {
+        const url = URL.createObjectURL(new Blob([tagged as BlobPart], { type: 'image/jpeg' }));
+        const img = new Image();
+        img.onload = () => {
+          URL.revokeObjectURL(url);
+          resolve(img.width === 1);
+        };
+        img.onerror = () => {
+          URL.revokeObjectURL(url);
+          resolve(true);
+        };
+        img.src = url;
+      });
+    });
+  }
+  return orientationSupport;
+};
+
+export interface SourceImage {
+  image: CanvasImageSource;
+  width: number; // Upright dimensions, after orientation
+  height: number;
+  orientation: number; // Orientation still to be applied when drawing (1 = none)
+  close: () => void;
+}
+
+/**
+ * Decodes a file so it can be drawn to a canvas.
+ * Uses createImageBitmap where available (required inside workers), which applies
+ * the EXIF orientation itself; otherwise falls back to an <img> element.
+ */
+const loadImage = async (file: Blob, orientation: number): Promise<SourceImage> => {
+  if (typeof createImageBitmap !== 'undefined') {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    return { image: bitmap, width: bitmap.width, height: bitmap.height, orientation: 1, close: () => bitmap.close() };
+  }
+
+  const pending = orientation > 1 && !(await browserAppliesOrientation()) ? orientation : 1;
+
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      img.src = e.target?.result as string;
+    };
+
+    reader.onerror = (e) => reject(e);
+
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode image'));
+
+    reader.readAsDataURL(file);
+  });
+
+  // Orientations 5-8 swap width and height
+  const swapped = pending >= 5;
+  return {
+    image: img,
+    width: swapped ? img.height : img.width,
+    height: swapped ? img.width : img.height,
+    orientation: pending,
+    close: () => {}
+  };
+};
+
+/**
+ * Everything the compression code needs from the platform: canvases, encoding and decoding.
+ * The browser's canvas API is the default; other environments (the Node CLI) plug in their own
+ * implementation so the same resize, crop, watermark and quality search code runs there too.
+ */
+export interface ImageBackend {
+  createCanvas: (width: number, height: number) => AnyCanvas;
+  // Resolves null when the type can't be encoded
+  canvasToBlob: (canvas: AnyCanvas, type: string, quality?: number) => Promise<Blob | null>;
+  // `orientation` is the EXIF orientation read from the file, for decoders that don't apply it
+  loadImage: (file: Blob, orientation: number) => Promise<SourceImage>;
+}
+
+export const browserImageBackend: ImageBackend = { createCanvas, canvasToBlob, loadImage };
+
+let backend = browserImageBackend;
+
+/**
+ * Replaces the image backend. Call it before any image is processed, since encoder support is cached.
+ */
+export const setImageBackend = (next: ImageBackend) => {
+  backend = next;
+};
+
+export const getImageBackend = (): ImageBackend => backend;
@@ -0,0 +1,100 @@
+import { ImageInfo } from '../types.ts';
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) => {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+};
+
+const readUint32BE = (bytes: Uint8Array, offset: number) => {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+};
+
+/**
+ * PNG: colour types 4 and 6 carry alpha, a tRNS chunk adds it to the others.
+ * An acTL chunk with more than one frame makes it an APNG.
+ */
+const readPng = (bytes: Uint8Array): ImageInfo => {
+  const colorType = bytes[25];
+  const info: ImageInfo = { hasAlpha: colorType === 4 || colorType === 6, animated: false };
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === 'tRNS') info.hasAlpha = true;
+    if (type === 'acTL') info.animated = readUint32BE(bytes, offset + 8) > 1;
+    // Both chunks must come before the image data
+    if (type === 'IDAT' || type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return info;
+};
+
+/**
+ * GIF: walks the block structure, counting frames and looking for a transparent colour
+ * in the graphic control extensions. Stops at the second frame.
+ */
+const readGif = (bytes: Uint8Array): ImageInfo => {
+  const info: ImageInfo = { hasAlpha: false, animated: false };
+  const skipSubBlocks = (offset: number) => {
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+    return offset + 1;
+  };
+
+  const screenFlags = bytes[10];
+  let offset = 13 + (screenFlags & 0x80 ? 3 * 2 ** ((screenFlags & 0x07) + 1) : 0);
+  let frames = 0;
+
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x21) {
+      // Graphic control extension: the lowest bit of its packed byte flags a transparent colour
+      if (bytes[offset + 1] === 0xf9 && bytes[offset + 3] & 0x01) info.hasAlpha = true;
+      offset = skipSubBlocks(offset + 2);
+    } else if (block === 0x2c) {
+      if (++frames > 1) {
+        info.animated = true;
+        break;
+      }
+      const flags = bytes[offset + 9];
+      offset += 10 + (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+      offset = skipSubBlocks(offset + 1); // Past the LZW code size and image data
+    } else {
+      break; // Trailer or corrupt data
+    }
+  }
+  return info;
+};
+
+/**
+ * WebP: the extended (VP8X) header has alpha and animation flags; a lossless (VP8L)
+ * header has an alpha bit; simple lossy (VP8) files have neither.
+ */
+const readWebp = (bytes: Uint8Array): ImageInfo => {
+  const chunk = ascii(bytes, 12, 4);
+  if (chunk === 'VP8X') {
+    return { hasAlpha: (bytes[20] & 0x10) !== 0, animated: (bytes[20] & 0x02) !== 0 };
+  }
+  if (chunk === 'VP8L') {
+    return { hasAlpha: (bytes[24] & 0x10) !== 0, animated: false };
+  }
+  return { hasAlpha: false, animated: false };
+};
+
+/**
+ * Reads transparency and animation from the file header, without decoding it.
+ * `hasAlpha` means the format declares an alpha channel; whether any pixel actually
+ * uses it has to be checked on the decoded image.
+ */
+export const readImageInfo = async (file: Blob): Promise<ImageInfo> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return readPng(bytes);
+  if (ascii(bytes, 0, 4) === 'GIF8') return readGif(bytes);
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return readWebp(bytes);
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    // AVIF and HEIF sequences use the "avis"/"msf1" brands; alpha is only known after decoding
+    const brand = ascii(bytes, 8, 4);
+    return { hasAlpha: brand.startsWith('avi'), animated: brand === 'avis' || brand === 'msf1' };
+  }
+  return { hasAlpha: false, animated: false };
+};
@@ -0,0 +1,31 @@
+import { ImageMetadata, KeywordMatch } from '../types.ts';
+import { transliterate } from './localeService.ts';
+
+// Lowercase words spelled the way slugs are, without punctuation; hyphens and underscores count as spaces
+const normalize = (text: string, locale: string): string[] => {
+  return transliterate(text, locale)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+};
+
+/**
+ * How well a field covers the keyphrase: 'exact' when its words appear together in order,
+ * 'partial' when they all appear but scattered, otherwise 'missing'.
+ */
+export const matchKeyphrase = (text: string, keyphrase: string, locale = ''): KeywordMatch => {
+  const phrase = normalize(keyphrase, locale);
+  const words = normalize(text, locale);
+  if (phrase.length === 0 || words.length === 0) return 'missing';
+
+  const joined = ` ${words.join(' ')} `;
+  if (joined.includes(` ${phrase.join(' ')} `)) return 'exact';
+  return phrase.every(word => words.includes(word)) ? 'partial' : 'missing';
+};
+
+export type KeywordCoverage = Record<'title' | 'altText' | 'fileName', KeywordMatch>;
+
+export const getKeywordCoverage = (metadata: ImageMetadata, keyphrase: string, locale = ''): KeywordCoverage => ({
+  title: matchKeyphrase(metadata.title, keyphrase, locale),
+  altText: matchKeyphrase(metadata.altText, keyphrase, locale),
+  fileName: matchKeyphrase(metadata.fileName, keyphrase, locale)
+});
@@ -0,0 +1,41 @@
+export const LOCALES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'de', label: 'German' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'pl', label: 'Polish' },
+  { code: 'sv', label: 'Swedish' },
+  { code: 'da', label: 'Danish' },
+  { code: 'tr', label: 'Turkish' }
+];
+
+export const getLocaleLabel = (code: string): string => {
+  return LOCALES.find(l => l.code === code)?.label || code;
+};
+
+// Letters that don't decompose into a base letter plus accent
+const COMMON_TRANSLITERATIONS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i'
+};
+
+// Spellings a native reader expects instead of just dropping the accent
+const LOCALE_TRANSLITERATIONS: Record<string, Record<string, string>> = {
+  de: { 'ä': 'ae', 'ö': 'oe', 'ü': 'ue' },
+  da: { 'å': 'aa' },
+  sv: { 'å': 'a' }
+};
+
+/**
+ * Lowercases text and spells accented letters in ASCII: "Grüße" -> "gruesse" in German, "Año" -> "ano".
+ */
+export const transliterate = (text: string, locale = ''): string => {
+  const map = { ...COMMON_TRANSLITERATIONS, ...LOCALE_TRANSLITERATIONS[locale.split('-')[0]] };
+  return Array.from(text.toLowerCase())
+    .map(char => map[char] ?? char)
+    .join('')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+};
@@ -0,0 +1,84 @@
+import { OptimizedImage } from '../types.ts';
+import type { PublishedImage } from './exportService.ts';
+
+/**
+ * Escapes text for use inside HTML attributes and element content.
+ */
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Joins a path prefix and a file name without doubling or dropping the slash.
+ */
+export const joinUrl = (basePath: string, fileName: string): string => {
+  if (!basePath) return fileName;
+  return `${basePath.replace(/\/+$/, '')}/${fileName}`;
+};
+
+/**
+ * Whether a URL is absolute. Importers and crawlers can't resolve relative ones.
+ */
+export const isAbsoluteUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+/**
+ * Builds the srcset attribute value, e.g. "dog-320w.webp 320w, dog-640w.webp 640w"
+ */
+export const buildSrcset = ({ image, variantUrls }: PublishedImage): string => {
+  return variantUrls.map((url, i) => `${url} ${image.variants[i].width}w`).join(', ');
+};
+
+/**
+ * Default sizes attribute: full viewport width up to the largest variant.
+ */
+export const buildSizes = (image: OptimizedImage): string => {
+  const largest = image.variants[image.variants.length - 1];
+  return largest ? `(max-width: ${largest.width}px) 100vw, ${largest.width}px` : '100vw';
+};
+
+/**
+ * Builds the attributes shared by the <img> tag of both snippet styles.
+ */
+const buildImgAttributes = (published: PublishedImage): string => {
+  const { image, url, variantUrls } = published;
+  const largest = image.variants[image.variants.length - 1];
+  const src = largest ? variantUrls[variantUrls.length - 1] : url;
+
+  return [
+    `src="${escapeHtml(src)}"`,
+    `srcset="${escapeHtml(buildSrcset(published))}"`,
+    `sizes="${escapeHtml(buildSizes(image))}"`,
+    `width="${largest?.width ?? image.width}"`,
+    `height="${largest?.height ?? image.height}"`,
+    `alt="${escapeHtml(image.metadata.altText)}"`,
+    `loading="lazy"`,
+    `decoding="async"`
+  ].join(' ');
+};
+
+/**
+ * Copy-ready responsive <img> tag.
+ */
+export const buildImgSnippet = (published: PublishedImage): string => {
+  return `<img ${buildImgAttributes(published)}>`;
+};
+
+/**
+ * Copy-ready <picture> element with a typed <source>, so browsers without
+ * support for the output format can skip it.
+ */
+export const buildPictureSnippet = (published: PublishedImage): string => {
+  const { image } = published;
+  const type = image.compressedBlob?.type || image.outputFormat;
+  return [
+    '<picture>',
+    `  <source type="${type}" srcset="${escapeHtml(buildSrcset(published))}" sizes="${escapeHtml(buildSizes(image))}">`,
+    `  <img ${buildImgAttributes(published)}>`,
+    '</picture>'
+  ].join('\n');
+};
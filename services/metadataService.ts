@@ -0,0 +1,103 @@
+import { AiProviderId, AiSettings, ImageMetadata, MetadataProvider, ProjectContext, ProviderConfig } from "../types.ts";
+import { geminiProvider } from "./geminiService.ts";
+import { openaiProvider } from "./openaiService.ts";
+import { ollamaProvider } from "./ollamaService.ts";
+import { mockProvider } from "./mockMetadataService.ts";
+import { MetadataError, toMetadataError } from "./aiErrors.ts";
+
+const providers = new Map<AiProviderId, MetadataProvider>();
+
+/**
+ * Adds (or replaces) a metadata provider in the registry.
+ */
+export const registerProvider = (provider: MetadataProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: AiProviderId): MetadataProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown metadata provider "${id}"`);
+  }
+  return provider;
+};
+
+export const listProviders = (): MetadataProvider[] => Array.from(providers.values());
+
+[geminiProvider, openaiProvider, ollamaProvider, mockProvider].forEach(registerProvider);
+
+const toProviderConfig = (provider: MetadataProvider, settings: AiSettings, apiKey: string): ProviderConfig => ({
+  model: settings.model || provider.defaultModel,
+  endpoint: settings.endpoint || provider.defaultEndpoint,
+  apiKey: apiKey || undefined
+});
+
+/**
+ * True when the provider can't be called without a key and none was entered.
+ */
+export const isMissingApiKey = (settings: AiSettings, apiKey: string): boolean => {
+  return getProvider(settings.provider).apiKey === 'required' && !apiKey;
+};
+
+/**
+ * Makes a cheap call to check that the key is accepted. Throws with the reason if not.
+ */
+export const validateApiKey = async (settings: AiSettings, apiKey: string): Promise<void> => {
+  const provider = getProvider(settings.provider);
+  await provider.validateKey?.(toProviderConfig(provider, settings, apiKey));
+};
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  // The batch signal lives for the whole run, so don't leave a listener behind per retry
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with jitter, unless the server said how long to wait
+const retryDelay = (error: MetadataError, attempt: number): number => {
+  if (error.retryAfter !== null) return Math.min(error.retryAfter, MAX_DELAY_MS);
+  const exponential = BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(exponential + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS);
+};
+
+/**
+ * Analyzes the image with the configured provider and generates SEO metadata.
+ * Rate limits and network failures are retried with backoff; anything else, or the
+ * last failed attempt, is thrown as a MetadataError so callers can keep existing metadata.
+ * Aborting the signal rejects with its reason instead.
+ */
+export const generateImageMetadata = async (
+  file: Blob,
+  settings: AiSettings,
+  apiKey: string,
+  context: ProjectContext,
+  signal?: AbortSignal
+): Promise<ImageMetadata> => {
+  const provider = getProvider(settings.provider);
+  const config = { ...toProviderConfig(provider, settings, apiKey), signal };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await provider.generate(file, config, context);
+    } catch (e) {
+      if (signal?.aborted) throw signal.reason;
+      const error = toMetadataError(e);
+      if (!error.retryable || attempt >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(`Metadata generation failed (${error.kind}), retrying`, error);
+      await sleep(retryDelay(error, attempt), signal);
+    }
+  }
+};
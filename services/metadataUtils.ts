@@ -0,0 +1,137 @@
+import { ImageMetadata, LocalizedMetadata, ProjectContext } from '../types.ts';
+import { slugify } from './compressionService.ts';
+import { MetadataError } from './aiErrors.ts';
+import { getLocaleLabel } from './localeService.ts';
+
+/**
+ * The instructions sent with every image. Context fields left empty are simply omitted.
+ */
+export const buildMetadataPrompt = (context: ProjectContext): string => {
+  const lines = [
+    context.articleTitle
+      ? `Analyze this image for a blog post titled "${context.articleTitle}". Provide SEO-friendly metadata.`
+      : 'Analyze this image for a blog post. Provide SEO-friendly metadata.',
+    '1. A short, descriptive title (max 60 chars).',
+    '2. An alt text description (max 100 chars) describing the image content for accessibility.',
+    '3. A caption that could be used under the image in an article.',
+    '4. A filename suggestion based on the title (lowercase, hyphen-separated).'
+  ];
+
+  if (context.focusKeyphrase) {
+    lines.push(`Work the focus keyphrase "${context.focusKeyphrase}" into the title, alt text and filename where it describes the image naturally. Never force it in or repeat it.`);
+  }
+  if (context.secondaryKeywords.length > 0) {
+    lines.push(`Related keywords you may use if they fit: ${context.secondaryKeywords.join(', ')}.`);
+  }
+  if (context.brandName) {
+    lines.push(`The brand is "${context.brandName}"; name it only if it is visible or clearly relevant.`);
+  }
+  if (context.tone) {
+    lines.push(`Write the title and caption in a ${context.tone} tone. Keep the alt text plain and descriptive.`);
+  }
+  if (context.language) {
+    lines.push(`Write the title, alt text and caption in ${getLocaleLabel(context.language)}. Keep the filename in lowercase ASCII.`);
+  }
+  if (context.translationLocales.length > 0) {
+    const locales = context.translationLocales.map(code => `"${code}" (${getLocaleLabel(code)})`).join(', ');
+    lines.push(`Also write natural, locally idiomatic versions of all four fields for these locales: ${locales}. Each filename is a slug in that language.`);
+  }
+
+  return lines.join('\n');
+};
+
+// Appended for providers without structured output: spells out the JSON shape
+export const buildJsonInstructions = (context: ProjectContext): string => {
+  const base = 'Respond with only a JSON object with the string keys "title", "altText", "caption" and "fileName"';
+  if (context.translationLocales.length === 0) return `\n${base}.`;
+  return `\n${base}, plus a "translations" object mapping each extra locale code to an object with the same four keys.`;
+};
+
+/**
+ * Converts a File object to a Base64 string (without the data URL prefix).
+ * Reads the bytes directly rather than through FileReader, which Node doesn't have.
+ */
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // Chunked so large images don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp|avif|gif|svg|heic|heif|tiff?|bmp)$/i;
+
+/**
+ * Turns a model's file name suggestion into a slug for the locale. Models sometimes add an
+ * extension or a folder ("dogs/Golden Retriever.jpg"); empty means nothing usable came back.
+ */
+const toFileName = (value: unknown, locale: string): string => {
+  if (typeof value !== 'string') return '';
+  const words = value.trim().replace(IMAGE_EXTENSION, '').replace(/[/\\.]+/g, ' ');
+  return slugify(words, locale).replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Applies generated metadata over an image's current metadata. Translations for locales that
+ * weren't requested are kept, and a file name the model didn't supply keeps the current one.
+ */
+export const mergeGeneratedMetadata = (current: ImageMetadata, generated: ImageMetadata): ImageMetadata => {
+  const fileName = generated.fileName || current.fileName;
+  const translations = { ...current.translations };
+  for (const [code, entry] of Object.entries(generated.translations)) {
+    translations[code] = { ...entry, fileName: entry.fileName || current.translations[code]?.fileName || fileName };
+  }
+  return { ...generated, fileName, translations };
+};
+
+/**
+ * Parses a model's JSON answer into ImageMetadata and picks out the translations that were
+ * asked for. A reply without a title or alt text is malformed rather than padded with
+ * placeholders, so the image keeps the metadata it had.
+ * Tolerates answers wrapped in a Markdown code fence.
+ */
+export const parseMetadataJson = (text: string | undefined, context: ProjectContext): ImageMetadata => {
+  if (!text) {
+    throw new MetadataError('malformed', "No response text from model");
+  }
+
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let result;
+  try {
+    result = JSON.parse(json);
+  } catch {
+    throw new MetadataError('malformed', `Response is not valid JSON: ${json.slice(0, 80)}`);
+  }
+  if (!result || typeof result !== 'object') {
+    throw new MetadataError('malformed', "Response is not a JSON object");
+  }
+
+  const missing = ['title', 'altText'].filter(key => typeof result[key] !== 'string' || !result[key].trim());
+  if (missing.length > 0) {
+    throw new MetadataError('malformed', `Response is missing ${missing.join(' and ')}`);
+  }
+
+  const primary: LocalizedMetadata = {
+    title: result.title,
+    altText: result.altText,
+    caption: result.caption || "",
+    fileName: toFileName(result.fileName, context.language)
+  };
+
+  // Locales the model skipped are left out rather than filled with placeholders
+  const translations: Record<string, LocalizedMetadata> = {};
+  for (const code of context.translationLocales) {
+    const entry = result.translations?.[code];
+    if (!entry || typeof entry !== 'object') continue;
+    translations[code] = {
+      title: entry.title || "",
+      altText: entry.altText || "",
+      caption: entry.caption || "",
+      fileName: toFileName(entry.fileName, code)
+    };
+  }
+
+  return { ...primary, translations };
+};
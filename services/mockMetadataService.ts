@@ -0,0 +1,54 @@
+import { MetadataProvider } from "../types.ts";
+import { slugify } from "./compressionService.ts";
+
+/**
+ * Turns a camera-style file name into readable words: "IMG_2041 beach-sunset.jpg" -> "beach sunset"
+ */
+const wordsFromFileName = (name: string): string => {
+  return name
+    .replace(/\.[^.]+$/, '')
+    .replace(/[_\-.]+/g, ' ')
+    .replace(/\b(img|dsc|pxl|image|photo)\b/gi, '')
+    .replace(/\b\d+\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+};
+
+/**
+ * Deterministic offline stand-in: derives metadata from the file name without any network.
+ * The same input always yields the same output, which makes the whole flow testable.
+ */
+export const mockProvider: MetadataProvider = {
+  id: 'mock',
+  label: 'Local mock (offline)',
+  defaultModel: 'mock',
+  defaultEndpoint: '',
+  apiKey: 'none',
+
+  generate: async (file, _config, context) => {
+    const name = file instanceof File ? file.name : '';
+    const words = wordsFromFileName(name) || 'sample image';
+    // Mirror what a real model is asked to do with the keyphrase
+    const phrase = context.focusKeyphrase && !words.includes(context.focusKeyphrase.toLowerCase())
+      ? `${context.focusKeyphrase.toLowerCase()} ${words}`
+      : words;
+    const title = phrase.replace(/\b\w/g, c => c.toUpperCase()).slice(0, 60);
+
+    // No real translation offline; tag the text with the locale so the tabs can be told apart
+    const translations = Object.fromEntries(context.translationLocales.map(code => [code, {
+      title: `${title} [${code}]`,
+      altText: `${title} [${code}]`.slice(0, 100),
+      caption: `${title}. [${code}]`,
+      fileName: `${slugify(title, code)}-${code}`
+    }]));
+
+    return {
+      title,
+      altText: `${title} for the article`.slice(0, 100),
+      caption: `${title}.`,
+      fileName: slugify(title, context.language),
+      translations
+    };
+  }
+};
@@ -0,0 +1,41 @@
+import { MetadataProvider } from "../types.ts";
+import { buildJsonInstructions, buildMetadataPrompt, fileToBase64, parseMetadataJson } from "./metadataUtils.ts";
+import { errorFromResponse } from "./aiErrors.ts";
+
+/**
+ * A self-hosted Ollama (or Ollama-compatible) server running a vision model
+ */
+export const ollamaProvider: MetadataProvider = {
+  id: 'ollama',
+  label: 'Ollama (self-hosted)',
+  defaultModel: 'llava',
+  defaultEndpoint: 'http://localhost:11434',
+  apiKey: 'none',
+
+  generate: async (file, config, context) => {
+    const base64Data = await fileToBase64(file);
+
+    const response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/api/chat`, {
+      method: 'POST',
+      signal: config.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        format: 'json',
+        stream: false,
+        messages: [{
+          role: 'user',
+          content: buildMetadataPrompt(context) + buildJsonInstructions(context),
+          images: [base64Data]
+        }]
+      })
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Ollama');
+    }
+
+    const data = await response.json();
+    return parseMetadataJson(data.message?.content, context);
+  }
+};
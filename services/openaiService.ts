@@ -0,0 +1,59 @@
+import { MetadataProvider } from "../types.ts";
+import { buildJsonInstructions, buildMetadataPrompt, fileToBase64, parseMetadataJson } from "./metadataUtils.ts";
+import { errorFromResponse, MetadataError } from "./aiErrors.ts";
+
+/**
+ * Any OpenAI-compatible Chat Completions API with vision support
+ * (OpenAI, Azure OpenAI, OpenRouter, LM Studio, vLLM, ...)
+ */
+export const openaiProvider: MetadataProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultEndpoint: 'https://api.openai.com/v1',
+  apiKey: 'optional',
+
+  generate: async (file, config, context) => {
+    const base64Data = await fileToBase64(file);
+
+    const response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal: config.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        response_format: { type: 'json_object' },
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: buildMetadataPrompt(context) + buildJsonInstructions(context) },
+            { type: 'image_url', image_url: { url: `data:${file.type};base64,${base64Data}` } }
+          ]
+        }]
+      })
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'OpenAI-compatible');
+    }
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+      throw new MetadataError('safety', choice.message?.refusal || 'Response blocked by the content filter');
+    }
+    return parseMetadataJson(choice?.message?.content, context);
+  },
+
+  validateKey: async (config) => {
+    const response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/models`, {
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+    });
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'OpenAI-compatible');
+    }
+  }
+};
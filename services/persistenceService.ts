@@ -0,0 +1,121 @@
+import { OptimizedImage, ProjectContext, Session, WatermarkSettings } from '../types.ts';
+
+const DB_NAME = 'aj-seo';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const IMAGES = 'images';
+
+// Object URLs don't survive a reload, so the preview is recreated from the original on restore
+type StoredImage = Omit<OptimizedImage, 'originalPreview'> & { sessionId: string; order: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        db.createObjectStore(IMAGES, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs `work` in one transaction and resolves with its result once the transaction commits.
+ */
+const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+export const isPersistenceAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const listSessions = (): Promise<Session[]> => {
+  return withStores([SESSIONS], 'readonly', tx => requestToPromise(tx.objectStore(SESSIONS).getAll() as IDBRequest<Session[]>))
+    .then(sessions => sessions.sort((a, b) => b.updatedAt - a.updatedAt));
+};
+
+export const createSession = async (name: string, projectContext: ProjectContext, watermark: WatermarkSettings): Promise<Session> => {
+  const session: Session = {
+    id: Math.random().toString(36).substr(2, 9),
+    name,
+    updatedAt: Date.now(),
+    projectContext,
+    watermark
+  };
+  await withStores([SESSIONS], 'readwrite', tx => requestToPromise(tx.objectStore(SESSIONS).put(session)));
+  return session;
+};
+
+export const saveSession = async (session: Session): Promise<void> => {
+  await withStores([SESSIONS], 'readwrite', tx => requestToPromise(tx.objectStore(SESSIONS).put(session)));
+};
+
+/**
+ * Deletes a session together with all of its images.
+ */
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  await withStores([SESSIONS, IMAGES], 'readwrite', async tx => {
+    tx.objectStore(SESSIONS).delete(sessionId);
+    const images = tx.objectStore(IMAGES);
+    const keys = await requestToPromise(images.index('sessionId').getAllKeys(sessionId));
+    keys.forEach(key => images.delete(key));
+  });
+};
+
+/**
+ * Loads a session's images in the order they were added. The caller must create `originalPreview`.
+ */
+export const loadSessionImages = async (sessionId: string): Promise<Omit<OptimizedImage, 'originalPreview'>[]> => {
+  const stored = await withStores([IMAGES], 'readonly', tx =>
+    requestToPromise(tx.objectStore(IMAGES).index('sessionId').getAll(sessionId) as IDBRequest<StoredImage[]>)
+  );
+  return stored
+    .sort((a, b) => a.order - b.order)
+    .map(({ sessionId: _sessionId, order: _order, ...image }) => image);
+};
+
+/**
+ * Writes changed images and deletes removed ones in a single transaction.
+ */
+export const syncSessionImages = async (
+  sessionId: string,
+  changed: { image: OptimizedImage; order: number }[],
+  removedIds: string[]
+): Promise<void> => {
+  if (changed.length === 0 && removedIds.length === 0) return;
+  await withStores([IMAGES], 'readwrite', tx => {
+    const store = tx.objectStore(IMAGES);
+    for (const { image, order } of changed) {
+      const { originalPreview: _preview, ...rest } = image;
+      const record: StoredImage = { ...rest, sessionId, order };
+      store.put(record);
+    }
+    removedIds.forEach(id => store.delete(id));
+  });
+};
@@ -0,0 +1,109 @@
+import { CompressionJob, CompressionJobResult, CompressionProfile, ExifPolicy, OptimizedImage, WatermarkSettings } from '../types.ts';
+import { DEFAULT_MATTE_COLOR, inspectImage, supportsAlpha } from './compressionService.ts';
+import { readExif } from './exifService.ts';
+import { profileToImageSettings } from './profileService.ts';
+import { isSvgFile } from './svgService.ts';
+
+// The steps every image goes through, shared by the app and the command line tool.
+// Nothing here touches the DOM; decoding and encoding go through the image backend.
+
+export const DEFAULT_RASTER_WIDTH = 1200;
+
+interface NewImageOptions {
+  id: string;
+  originalPreview: string; // Object URL for the card; empty outside the browser
+  profile: CompressionProfile;
+  defaultExifPolicy: ExifPolicy;
+  ssimFloor: number | null; // Set to start in smart quality mode
+}
+
+/**
+ * A freshly added image, waiting to be inspected and compressed with the profile's settings.
+ */
+export const createOptimizedImage = (file: File, options: NewImageOptions): OptimizedImage => ({
+  id: options.id,
+  originalFile: file,
+  originalPreview: options.originalPreview,
+  compressedBlob: null,
+  compressedSize: 0,
+  originalSize: file.size,
+  status: 'pending',
+  metadata: {
+    title: '',
+    altText: '',
+    caption: '',
+    fileName: file.name.split('.')[0].toLowerCase().replace(/\s+/g, '-'),
+    translations: {}
+  },
+  ...profileToImageSettings(options.profile, options.defaultExifPolicy),
+  ssimFloor: options.ssimFloor,
+  targetMet: null,
+  width: 0,
+  height: 0,
+  variants: [],
+  exif: null,
+  aiError: null,
+  metadataEdited: false,
+  qualityScore: null,
+  hasAlpha: false,
+  animated: false,
+  matteColor: DEFAULT_MATTE_COLOR,
+  decodedFile: null,
+  svgMode: isSvgFile(file) ? 'optimize' : null,
+  rasterWidth: DEFAULT_RASTER_WIDTH,
+  compressionError: null,
+  transform: null,
+  watermarkOptOut: false
+});
+
+/**
+ * Reads what compression needs to know up front: EXIF (for the orientation), transparency
+ * and animation. `file` is the decodable copy of the image if it needed one.
+ */
+export const analyzeImage = async (image: OptimizedImage, file: Blob): Promise<Partial<OptimizedImage>> => {
+  const exif = await readExif(image.originalFile);
+  const { hasAlpha, animated } = await inspectImage(file);
+  // Keep transparency instead of flattening it onto the matte
+  const outputFormat = hasAlpha && !supportsAlpha(image.outputFormat) ? 'image/png' : image.outputFormat;
+  return { exif, hasAlpha, animated, outputFormat };
+};
+
+/**
+ * The compression job for an image's current settings. `file` is what gets decoded: the
+ * original, its decoded copy, or a rasterized SVG.
+ */
+export const buildCompressionJob = (image: OptimizedImage, file: Blob, watermark: WatermarkSettings | null): CompressionJob => {
+  const isRasterizedSvg = image.svgMode === 'rasterize';
+  return {
+    file,
+    config: {
+      quality: image.currentQuality,
+      maxWidth: image.transform?.outputWidth ?? (isRasterizedSvg ? image.rasterWidth : image.maxWidth ?? Infinity),
+      maxHeight: image.maxHeight,
+      resizeMode: image.resizeMode,
+      outputFormat: image.outputFormat,
+      orientation: image.exif?.orientation,
+      matteColor: image.matteColor,
+      transform: image.transform,
+      watermark: image.watermarkOptOut ? null : watermark
+    },
+    targetSize: image.targetSize,
+    ssimFloor: image.ssimFloor,
+    generateVariants: image.generateVariants
+  };
+};
+
+/**
+ * The image fields a finished compression job updates.
+ */
+export const applyCompressionResult = ({ result, targetMet, variants, score }: CompressionJobResult): Partial<OptimizedImage> => ({
+  compressedBlob: result.blob,
+  compressedSize: result.blob.size,
+  currentQuality: result.quality,
+  targetMet,
+  width: result.width,
+  height: result.height,
+  variants,
+  qualityScore: score,
+  compressionError: null
+});
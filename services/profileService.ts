@@ -0,0 +1,197 @@
+import { CompressionProfile, ExifPolicy, OptimizedImage, ProfileSettings, ResizeMode } from '../types.ts';
+import { OUTPUT_FORMATS, slugify } from './compressionService.ts';
+import { EXIF_POLICIES } from './exifService.ts';
+
+export const DEFAULT_PROFILES: CompressionProfile[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    outputFormat: 'image/jpeg',
+    quality: 0.7,
+    maxWidth: 1920,
+    maxHeight: null,
+    resizeMode: 'fit',
+    generateVariants: false,
+    exifPolicy: null,
+    writeMetadata: true
+  },
+  {
+    id: 'blog-hero',
+    name: 'Blog hero',
+    outputFormat: 'image/webp',
+    quality: 0.75,
+    maxWidth: 1920,
+    maxHeight: null,
+    resizeMode: 'fit',
+    generateVariants: true,
+    exifPolicy: null,
+    writeMetadata: true
+  },
+  {
+    id: 'thumbnail',
+    name: 'Thumbnail',
+    outputFormat: 'image/webp',
+    quality: 0.6,
+    maxWidth: 400,
+    maxHeight: 400,
+    resizeMode: 'cover',
+    generateVariants: false,
+    exifPolicy: 'strip-all',
+    writeMetadata: false
+  },
+  {
+    id: 'product-shot',
+    name: 'Product shot',
+    outputFormat: 'image/webp',
+    quality: 0.85,
+    maxWidth: 1600,
+    maxHeight: 1600,
+    resizeMode: 'fit',
+    generateVariants: true,
+    exifPolicy: 'strip-all',
+    writeMetadata: true
+  },
+  {
+    id: 'lossless-archive',
+    name: 'Lossless archive',
+    outputFormat: 'image/png',
+    quality: 1,
+    maxWidth: null,
+    maxHeight: null,
+    resizeMode: 'fit',
+    generateVariants: false,
+    exifPolicy: 'keep-except-gps',
+    writeMetadata: true
+  }
+];
+
+export const DEFAULT_PROFILE_SETTINGS: ProfileSettings = { profiles: DEFAULT_PROFILES, defaultId: 'standard' };
+
+export const RESIZE_MODES: { value: ResizeMode; label: string }[] = [
+  { value: 'fit', label: 'Fit inside' },
+  { value: 'cover', label: 'Crop to fill' }
+];
+
+// Bumped if the file layout changes in a way older versions can't read
+const EXPORT_VERSION = 1;
+
+export const getProfile = (profiles: CompressionProfile[], id: string | null): CompressionProfile | undefined => {
+  return profiles.find(p => p.id === id);
+};
+
+/**
+ * The image fields a profile sets. Choosing a profile leaves fixed-quality mode in charge,
+ * so any size budget or SSIM floor is cleared.
+ */
+export const profileToImageSettings = (
+  profile: CompressionProfile,
+  defaultExifPolicy: ExifPolicy
+): Pick<OptimizedImage, 'profileId' | 'currentQuality' | 'outputFormat' | 'maxWidth' | 'maxHeight' | 'resizeMode' | 'generateVariants' | 'targetSize' | 'ssimFloor' | 'exifPolicy' | 'writeMetadata'> => ({
+  profileId: profile.id,
+  currentQuality: profile.quality,
+  outputFormat: profile.outputFormat,
+  maxWidth: profile.maxWidth,
+  maxHeight: profile.maxHeight,
+  resizeMode: profile.resizeMode,
+  generateVariants: profile.generateVariants,
+  targetSize: null,
+  ssimFloor: null,
+  exifPolicy: profile.exifPolicy ?? defaultExifPolicy,
+  writeMetadata: profile.writeMetadata
+});
+
+/**
+ * A short summary of a profile's size limits, e.g. "400×400 crop" or "1920px wide".
+ */
+export const describeProfileSize = (profile: CompressionProfile): string => {
+  if (!profile.maxWidth && !profile.maxHeight) return 'Original size';
+  if (!profile.maxHeight) return `${profile.maxWidth}px wide`;
+  if (!profile.maxWidth) return `${profile.maxHeight}px high`;
+  return `${profile.maxWidth}×${profile.maxHeight}${profile.resizeMode === 'cover' ? ' crop' : ''}`;
+};
+
+const toProfileId = (name: string) => slugify(name).replace(/^-+|-+$/g, '');
+
+/**
+ * A profile id derived from the name that doesn't clash with any of `taken`.
+ */
+export const createProfileId = (name: string, taken: CompressionProfile[]): string => {
+  const base = toProfileId(name) || 'profile';
+  let id = base;
+  for (let n = 2; taken.some(p => p.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+const readDimension = (value: unknown): number | null => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 1 ? Math.round(value) : null;
+};
+
+/**
+ * Checks one imported profile and fills in anything missing. Throws if the entry can't be used.
+ */
+const normalizeProfile = (value: unknown, index: number): CompressionProfile => {
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Profile ${index + 1} is not an object.`);
+  }
+  const raw = value as Record<string, unknown>;
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    throw new Error(`Profile ${index + 1} has no name.`);
+  }
+  const outputFormat = OUTPUT_FORMATS.find(f => f.mime === raw.outputFormat)?.mime;
+  if (!outputFormat) {
+    throw new Error(`"${name}" has an unsupported output format: ${String(raw.outputFormat)}.`);
+  }
+
+  const quality = typeof raw.quality === 'number' && Number.isFinite(raw.quality)
+    ? Math.min(1, Math.max(0.05, raw.quality))
+    : DEFAULT_PROFILES[0].quality;
+  return {
+    id: typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : toProfileId(name) || `profile-${index + 1}`,
+    name,
+    outputFormat,
+    quality,
+    maxWidth: readDimension(raw.maxWidth),
+    maxHeight: readDimension(raw.maxHeight),
+    resizeMode: raw.resizeMode === 'cover' ? 'cover' : 'fit',
+    generateVariants: raw.generateVariants === true,
+    exifPolicy: EXIF_POLICIES.find(p => p.value === raw.exifPolicy)?.value ?? null,
+    writeMetadata: raw.writeMetadata !== false
+  };
+};
+
+/**
+ * Serializes profiles for sharing between machines or team members.
+ */
+export const exportProfiles = (profiles: CompressionProfile[]): string => {
+  return JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+};
+
+/**
+ * Parses a file written by `exportProfiles`. A bare array of profiles is accepted too,
+ * since that's what people tend to write by hand. Throws with a readable message on bad input.
+ */
+export const parseProfiles = (text: string): CompressionProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  const list = Array.isArray(data) ? data : (data as { profiles?: unknown } | null)?.profiles;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('No profiles found in this file.');
+  }
+  // Ids must be unique; the first profile with a given id wins
+  const profiles = list.map(normalizeProfile);
+  return profiles.filter((profile, i) => profiles.findIndex(p => p.id === profile.id) === i);
+};
+
+/**
+ * Adds imported profiles to the existing ones. A profile with the same id as an existing one replaces it.
+ */
+export const mergeProfiles = (existing: CompressionProfile[], imported: CompressionProfile[]): CompressionProfile[] => {
+  const merged = existing.map(p => imported.find(i => i.id === p.id) ?? p);
+  const added = imported.filter(i => !existing.some(p => p.id === i.id));
+  return [...merged, ...added];
+};
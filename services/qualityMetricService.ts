@@ -0,0 +1,106 @@
+import { QualityScore } from '../types.ts';
+
+const WINDOW = 8;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+// Rec. 601 luma; the eye is far more sensitive to brightness than to colour errors
+const toLuma = (rgba: Uint8ClampedArray): Float32Array => {
+  const luma = new Float32Array(rgba.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return luma;
+};
+
+// Sum of SSIM over the non-overlapping 8x8 windows that fit, and how many there were
+const sumSsimWindows = (a: Float32Array, b: Float32Array, width: number, height: number) => {
+  let total = 0;
+  let windows = 0;
+
+  for (let y = 0; y + WINDOW <= height; y += WINDOW) {
+    for (let x = 0; x + WINDOW <= width; x += WINDOW) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let wy = 0; wy < WINDOW; wy++) {
+        const row = (y + wy) * width + x;
+        for (let wx = 0; wx < WINDOW; wx++) {
+          const va = a[row + wx];
+          const vb = b[row + wx];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const n = WINDOW * WINDOW;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+
+      total += ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows++;
+    }
+  }
+
+  return { total, windows };
+};
+
+const sumSquaredError = (a: Float32Array, b: Float32Array): number => {
+  let squaredError = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    squaredError += diff * diff;
+  }
+  return squaredError;
+};
+
+const toPsnr = (mse: number): number => mse === 0 ? 100 : 10 * Math.log10((255 * 255) / mse);
+
+/**
+ * Mean SSIM over non-overlapping 8x8 windows. 1 means identical; above ~0.95 differences
+ * are hard to spot, below ~0.9 artefacts are usually visible.
+ */
+export const computeSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  const { total, windows } = sumSsimWindows(a, b, width, height);
+  return windows > 0 ? total / windows : 1;
+};
+
+/**
+ * Peak signal-to-noise ratio in dB. Identical images are reported as 100 dB.
+ */
+export const computePsnr = (a: Float32Array, b: Float32Array): number => {
+  return toPsnr(sumSquaredError(a, b) / a.length);
+};
+
+/**
+ * Scores a large image strip by strip so only one strip of pixels is held at a time.
+ * Strips are RGBA buffers of the full width; every strip but the last must be a multiple
+ * of 8 rows high so the SSIM windows line up with a single-pass comparison.
+ */
+export const createQualityAccumulator = () => {
+  let ssimTotal = 0;
+  let windows = 0;
+  let squaredError = 0;
+  let pixels = 0;
+
+  const add = (reference: Uint8ClampedArray, output: Uint8ClampedArray, width: number, height: number) => {
+    const a = toLuma(reference);
+    const b = toLuma(output);
+    const ssim = sumSsimWindows(a, b, width, height);
+    ssimTotal += ssim.total;
+    windows += ssim.windows;
+    squaredError += sumSquaredError(a, b);
+    pixels += a.length;
+  };
+
+  const result = (): QualityScore => ({
+    ssim: windows > 0 ? ssimTotal / windows : 1,
+    psnr: toPsnr(pixels > 0 ? squaredError / pixels : 0)
+  });
+
+  return { add, result };
+};
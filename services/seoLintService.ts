@@ -0,0 +1,199 @@
+import { ImageMetadata, LintIssue, LintLevel, LintResult, LintSettings, LocalizedMetadata, OptimizedImage } from '../types.ts';
+
+export const DEFAULT_LINT_SETTINGS: LintSettings = {
+  levels: {},
+  titleMaxLength: 60,
+  altMinLength: 10,
+  altMaxLength: 100,
+  slugMaxLength: 60,
+  maxWordRepeats: 2,
+  redundantAltPrefixes: ['image of', 'picture of', 'photo of', 'photograph of', 'graphic of'],
+  slugStopWords: ['a', 'an', 'the', 'and', 'or', 'of', 'in', 'on', 'at', 'to', 'for', 'with', 'is']
+};
+
+// Facts about the whole queue that single-image rules need
+interface LintContext {
+  settings: LintSettings;
+  altCounts: Map<string, number>;
+  titleCounts: Map<string, number>;
+}
+
+interface LintRule {
+  id: string;
+  label: string;
+  field: keyof LocalizedMetadata;
+  defaultLevel: Exclude<LintLevel, 'off'>;
+  check: (metadata: ImageMetadata, context: LintContext) => string | null; // Message when the rule is broken
+}
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const findRepeatedWord = (text: string, maxRepeats: number): string | null => {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []) {
+    const count = (counts.get(word) || 0) + 1;
+    if (count > maxRepeats) return word;
+    counts.set(word, count);
+  }
+  return null;
+};
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'alt-empty',
+    label: 'Alt text is missing',
+    field: 'altText',
+    defaultLevel: 'error',
+    check: (m) => m.altText.trim() ? null : 'Add alt text so screen readers and search engines know what the image shows.'
+  },
+  {
+    id: 'alt-length',
+    label: 'Alt text length',
+    field: 'altText',
+    defaultLevel: 'warning',
+    check: (m, { settings }) => {
+      const length = m.altText.trim().length;
+      if (length === 0) return null;
+      if (length > settings.altMaxLength) return `Alt text is ${length} characters; keep it under ${settings.altMaxLength}.`;
+      if (length < settings.altMinLength) return `Alt text is only ${length} characters; describe the image in more detail.`;
+      return null;
+    }
+  },
+  {
+    id: 'alt-redundant-prefix',
+    label: 'Alt text starts with "image of"',
+    field: 'altText',
+    defaultLevel: 'warning',
+    check: (m, { settings }) => {
+      const alt = normalizeText(m.altText);
+      const prefix = settings.redundantAltPrefixes.find(p => alt.startsWith(normalizeText(p)));
+      return prefix ? `Screen readers already announce an image; drop "${prefix}".` : null;
+    }
+  },
+  {
+    id: 'alt-duplicate',
+    label: 'Alt text repeated in the queue',
+    field: 'altText',
+    defaultLevel: 'warning',
+    check: (m, { altCounts }) => {
+      const alt = normalizeText(m.altText);
+      return alt && (altCounts.get(alt) || 0) > 1 ? 'Another image has the same alt text; describe what makes this one different.' : null;
+    }
+  },
+  {
+    id: 'title-empty',
+    label: 'Title is missing',
+    field: 'title',
+    defaultLevel: 'warning',
+    check: (m) => m.title.trim() ? null : 'Add a short, descriptive title.'
+  },
+  {
+    id: 'title-length',
+    label: 'Title too long',
+    field: 'title',
+    defaultLevel: 'warning',
+    check: (m, { settings }) => {
+      const length = m.title.trim().length;
+      return length > settings.titleMaxLength ? `Title is ${length} characters; keep it under ${settings.titleMaxLength}.` : null;
+    }
+  },
+  {
+    id: 'title-duplicate',
+    label: 'Title repeated in the queue',
+    field: 'title',
+    defaultLevel: 'warning',
+    check: (m, { titleCounts }) => {
+      const title = normalizeText(m.title);
+      return title && (titleCounts.get(title) || 0) > 1 ? 'Another image has the same title.' : null;
+    }
+  },
+  {
+    id: 'keyword-stuffing-title',
+    label: 'Keyword stuffing in the title',
+    field: 'title',
+    defaultLevel: 'warning',
+    check: (m, { settings }) => {
+      const word = findRepeatedWord(m.title, settings.maxWordRepeats);
+      return word ? `"${word}" appears more than ${settings.maxWordRepeats} times; this reads as keyword stuffing.` : null;
+    }
+  },
+  {
+    id: 'keyword-stuffing-alt',
+    label: 'Keyword stuffing in the alt text',
+    field: 'altText',
+    defaultLevel: 'warning',
+    check: (m, { settings }) => {
+      const word = findRepeatedWord(m.altText, settings.maxWordRepeats);
+      return word ? `"${word}" appears more than ${settings.maxWordRepeats} times; this reads as keyword stuffing.` : null;
+    }
+  },
+  {
+    id: 'slug-length',
+    label: 'File name too long',
+    field: 'fileName',
+    defaultLevel: 'warning',
+    check: (m, { settings }) => {
+      const length = m.fileName.length;
+      return length > settings.slugMaxLength ? `File name is ${length} characters; keep it under ${settings.slugMaxLength}.` : null;
+    }
+  },
+  {
+    id: 'slug-stop-words',
+    label: 'Stop words in the file name',
+    field: 'fileName',
+    defaultLevel: 'warning',
+    check: (m, { settings }) => {
+      const stopWords = m.fileName.toLowerCase().split(/[-_]+/).filter(word => settings.slugStopWords.includes(word));
+      return stopWords.length > 0 ? `Remove filler words from the file name: ${Array.from(new Set(stopWords)).join(', ')}.` : null;
+    }
+  },
+  {
+    id: 'caption-equals-alt',
+    label: 'Caption repeats the alt text',
+    field: 'caption',
+    defaultLevel: 'warning',
+    check: (m) => {
+      const caption = normalizeText(m.caption);
+      return caption && caption === normalizeText(m.altText)
+        ? 'The caption is read right after the alt text; add context instead of repeating it.'
+        : null;
+    }
+  }
+];
+
+export const getRuleLevel = (rule: LintRule, settings: LintSettings): LintLevel => {
+  return settings.levels[rule.id] ?? rule.defaultLevel;
+};
+
+const ISSUE_PENALTY: Record<LintIssue['level'], number> = { error: 25, warning: 10 };
+
+const countBy = (values: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return counts;
+};
+
+/**
+ * Checks every image's primary-language metadata against the enabled rules.
+ * Scores start at 100 and lose 25 per error and 10 per warning.
+ */
+export const lintQueue = (images: OptimizedImage[], settings: LintSettings): Map<string, LintResult> => {
+  const context: LintContext = {
+    settings,
+    altCounts: countBy(images.map(img => normalizeText(img.metadata.altText))),
+    titleCounts: countBy(images.map(img => normalizeText(img.metadata.title)))
+  };
+  const activeRules = LINT_RULES.filter(rule => getRuleLevel(rule, settings) !== 'off');
+
+  return new Map(images.map(image => {
+    const issues: LintIssue[] = [];
+    for (const rule of activeRules) {
+      const message = rule.check(image.metadata, context);
+      if (message) {
+        issues.push({ ruleId: rule.id, field: rule.field, level: getRuleLevel(rule, settings) as LintIssue['level'], message });
+      }
+    }
+    const penalty = issues.reduce((sum, issue) => sum + ISSUE_PENALTY[issue.level], 0);
+    return [image.id, { issues, score: Math.max(0, 100 - penalty) }];
+  }));
+};
@@ -0,0 +1,25 @@
+const STORAGE_PREFIX = 'aj-seo:';
+
+/**
+ * Reads a settings object from localStorage, filling in any missing fields from the defaults.
+ */
+export const loadSettings = <T extends object>(key: string, defaults: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
+  } catch (e) {
+    console.error(`Could not read settings "${key}"`, e);
+    return defaults;
+  }
+};
+
+/**
+ * Persists a settings object to localStorage.
+ */
+export const saveSettings = <T extends object>(key: string, value: T) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Could not save settings "${key}"`, e);
+  }
+};
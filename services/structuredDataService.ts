@@ -0,0 +1,93 @@
+import { OptimizedImage } from '../types.ts';
+import { PublishedImage, toPublishedImages } from './exportService.ts';
+import { escapeHtml, isAbsoluteUrl } from './markupService.ts';
+import { ZipEntry } from './zipService.ts';
+
+export interface StructuredDataOptions {
+  baseUrl: string;
+  pageUrl: string;
+  licenseUrl: string;
+  creator: string;
+  copyright: string;
+  language: string;
+}
+
+export const SITEMAP_FILE_NAME = 'image-sitemap.xml';
+export const JSON_LD_FILE_NAME = 'images.jsonld';
+
+const IMAGE_SITEMAP_NAMESPACE = 'http://www.google.com/schemas/sitemap-image/1.1';
+
+/**
+ * Sitemaps only accept absolute URLs, both for the page and for every image.
+ */
+export const hasSitemapUrls = (options: StructuredDataOptions): boolean => {
+  return isAbsoluteUrl(options.pageUrl) && isAbsoluteUrl(options.baseUrl);
+};
+
+/**
+ * A `<url>` entry for an existing sitemap, listing every image on the page. Google only
+ * reads `<image:loc>` since it dropped the caption, title and license tags, so the rest
+ * of the metadata goes into the JSON-LD instead.
+ */
+export const buildImageSitemap = (images: OptimizedImage[], options: StructuredDataOptions): string => {
+  const entries = toPublishedImages(images, options.baseUrl).map(({ url }) => [
+    '  <image:image>',
+    `    <image:loc>${escapeHtml(url)}</image:loc>`,
+    '  </image:image>'
+  ].join('\n'));
+
+  return [
+    `<!-- Needs xmlns:image="${IMAGE_SITEMAP_NAMESPACE}" on the <urlset> -->`,
+    '<url>',
+    `  <loc>${escapeHtml(options.pageUrl)}</loc>`,
+    ...entries,
+    '</url>'
+  ].join('\n');
+};
+
+const buildImageObject = ({ image, url }: PublishedImage, options: StructuredDataOptions) => {
+  const { title, altText, caption } = image.metadata;
+  const fields: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'ImageObject',
+    contentUrl: url,
+    name: title,
+    caption,
+    description: altText,
+    width: image.width,
+    height: image.height,
+    encodingFormat: image.compressedBlob!.type,
+    inLanguage: options.language,
+    license: options.licenseUrl,
+    creator: options.creator && { '@type': 'Person', name: options.creator },
+    creditText: options.creator,
+    copyrightNotice: options.copyright
+  };
+  // Empty fields are left out rather than published as blanks
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== ''));
+};
+
+/**
+ * schema.org ImageObject JSON-LD for every finished image, as a JSON array.
+ */
+export const buildImageJsonLd = (images: OptimizedImage[], options: StructuredDataOptions): string => {
+  const objects = toPublishedImages(images, options.baseUrl).map(item => buildImageObject(item, options));
+  return JSON.stringify(objects, null, 2);
+};
+
+/**
+ * Wraps JSON-LD in the script tag that goes into the page. "<" is escaped so text
+ * like "</script>" in a caption can't end the tag early.
+ */
+export const toJsonLdScript = (jsonLd: string): string => {
+  return `<script type="application/ld+json">\n${jsonLd.replace(/</g, '\\u003c')}\n</script>`;
+};
+
+/**
+ * The image sitemap and JSON-LD as files for the batch export. The sitemap is left out
+ * until its URLs are absolute, since search engines reject the whole file otherwise.
+ */
+export const buildStructuredDataEntries = (images: OptimizedImage[], options: StructuredDataOptions): ZipEntry[] => [
+  ...(hasSitemapUrls(options) ? [{ name: SITEMAP_FILE_NAME, data: buildImageSitemap(images, options) }] : []),
+  { name: JSON_LD_FILE_NAME, data: buildImageJsonLd(images, options) }
+];
@@ -0,0 +1,175 @@
+import { LocalizedMetadata } from '../types.ts';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Namespaces of editor bookkeeping that browsers ignore
+const EDITOR_NAMESPACES = new Set([
+  'http://www.inkscape.org/namespaces/inkscape',
+  'http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd',
+  'http://www.bohemiancoding.com/sketch/ns',
+  'http://ns.adobe.com/AdobeIllustrator/10.0/',
+  'http://ns.adobe.com/Extensibility/1.0/',
+  'http://ns.adobe.com/Graphs/1.0/',
+  'http://ns.adobe.com/SaveForWeb/1.0/',
+  'http://ns.adobe.com/Variables/1.0/',
+  'http://www.serif.com/',
+  'http://creativecommons.org/ns#',
+  'http://purl.org/dc/elements/1.1/',
+  'http://www.w3.org/1999/02/22-rdf-syntax-ns#'
+]);
+
+// Browsers draw an SVG without any size information at 300x150
+const DEFAULT_SIZE = { width: 300, height: 150 };
+
+export const isSvgFile = (file: File): boolean => {
+  return file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+};
+
+const parseSvg = (text: string): SVGSVGElement => {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.querySelector('parsererror') || root.namespaceURI !== SVG_NS || root.localName !== 'svg') {
+    throw new Error('This file is not a valid SVG.');
+  }
+  return root as unknown as SVGSVGElement;
+};
+
+const serializeSvg = (root: SVGSVGElement): string => {
+  return new XMLSerializer().serializeToString(root);
+};
+
+/**
+ * Reads the drawing size from the width/height attributes, falling back to the viewBox.
+ * Percentages and physical units can't be resolved without a page, so they are ignored.
+ */
+const getSvgSize = (root: SVGSVGElement): { width: number; height: number } => {
+  const readLength = (name: string) => {
+    const match = /^\s*([\d.]+)\s*(px)?\s*$/.exec(root.getAttribute(name) || '');
+    return match ? parseFloat(match[1]) : 0;
+  };
+  const viewBox = (root.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+  const [boxWidth, boxHeight] = viewBox.length === 4 && viewBox.every(Number.isFinite) ? viewBox.slice(2) : [0, 0];
+
+  let width = readLength('width');
+  let height = readLength('height');
+  if (!width && !height) {
+    width = boxWidth;
+    height = boxHeight;
+  } else if (!height) {
+    height = boxWidth ? (width * boxHeight) / boxWidth : 0;
+  } else if (!width) {
+    width = boxHeight ? (height * boxWidth) / boxHeight : 0;
+  }
+  return width > 0 && height > 0 ? { width, height } : DEFAULT_SIZE;
+};
+
+// Whitespace inside these is visible
+const TEXT_ELEMENTS = new Set(['text', 'tspan', 'textPath']);
+
+const isEditorAttribute = (attr: Attr) => {
+  return (attr.prefix === 'xmlns' && EDITOR_NAMESPACES.has(attr.value)) || EDITOR_NAMESPACES.has(attr.namespaceURI || '');
+};
+
+/**
+ * Removes comments, <metadata>, editor elements and attributes, and whitespace-only text between tags.
+ */
+const stripSvg = (root: Element) => {
+  const show = NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT | NodeFilter.SHOW_COMMENT | NodeFilter.SHOW_PROCESSING_INSTRUCTION;
+  const walker = root.ownerDocument.createTreeWalker(root, show);
+  const removals: Node[] = [];
+  const elements: Element[] = [root];
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const element = node as Element;
+      if (element.localName === 'metadata' || EDITOR_NAMESPACES.has(element.namespaceURI || '')) {
+        removals.push(element);
+      } else {
+        elements.push(element);
+      }
+    } else if (node.nodeType !== Node.TEXT_NODE) {
+      removals.push(node);
+    } else if (!node.textContent?.trim() && !TEXT_ELEMENTS.has((node.parentNode as Element).localName)) {
+      removals.push(node);
+    }
+  }
+
+  removals.forEach(node => node.parentNode?.removeChild(node));
+  elements.forEach(element => Array.from(element.attributes).filter(isEditorAttribute).forEach(attr => element.removeAttributeNode(attr)));
+};
+
+/**
+ * Minifies an SVG and removes comments, <metadata> and the bookkeeping editors such as
+ * Inkscape, Illustrator and Sketch leave behind. Title and description are added on export.
+ */
+export const optimizeSvg = async (file: Blob): Promise<{ blob: Blob; width: number; height: number }> => {
+  const root = parseSvg(await file.text());
+  stripSvg(root);
+  const { width, height } = getSvgSize(root);
+  return { blob: new Blob([serializeSvg(root)], { type: 'image/svg+xml' }), width: Math.round(width), height: Math.round(height) };
+};
+
+/**
+ * Replaces the SVG's top-level <title> and <desc> with the image's metadata and labels
+ * the root so screen readers announce it as one image.
+ */
+export const injectSvgMetadata = async (blob: Blob, metadata: LocalizedMetadata): Promise<Blob> => {
+  const root = parseSvg(await blob.text());
+  const doc = root.ownerDocument;
+  Array.from(root.children)
+    .filter(child => child.localName === 'title' || child.localName === 'desc')
+    .forEach(child => root.removeChild(child));
+
+  const description = metadata.altText || metadata.caption;
+  if (description) {
+    const desc = doc.createElementNS(SVG_NS, 'desc');
+    desc.textContent = description;
+    root.insertBefore(desc, root.firstChild);
+  }
+  if (metadata.title) {
+    const title = doc.createElementNS(SVG_NS, 'title');
+    title.textContent = metadata.title;
+    root.insertBefore(title, root.firstChild);
+  }
+  if (metadata.title || description) root.setAttribute('role', 'img');
+
+  return new Blob([serializeSvg(root)], { type: 'image/svg+xml' });
+};
+
+/**
+ * Renders an SVG to a PNG of the given width, keeping its aspect ratio. Needs the DOM,
+ * so it can't run inside the compression workers.
+ */
+export const rasterizeSvg = async (file: Blob, width: number): Promise<File> => {
+  const root = parseSvg(await file.text());
+  const size = getSvgSize(root);
+  const height = Math.max(1, Math.round((width * size.height) / size.width));
+
+  // Without a viewBox, changing width/height would crop instead of scale
+  if (!root.getAttribute('viewBox')) root.setAttribute('viewBox', `0 0 ${size.width} ${size.height}`);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+
+  const url = URL.createObjectURL(new Blob([serializeSvg(root)], { type: 'image/svg+xml' }));
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Could not render this SVG.'));
+      img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(img, 0, 0, width, height);
+
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error('Could not render this SVG.');
+    return new File([png], 'rasterized.png', { type: 'image/png' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
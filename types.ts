@@ -1,10 +1,21 @@
-export interface ImageMetadata {
+// 'optimize' keeps the vector file, 'rasterize' renders it and compresses it like any other image
+export type SvgMode = 'optimize' | 'rasterize';
+
+export type OutputFormat = 'image/jpeg' | 'image/webp' | 'image/avif' | 'image/png';
+
+// Title, alt text, caption and file name in one language
+export interface LocalizedMetadata {
   title: string;
   altText: string;
   caption: string;
   fileName: string;
 }
 
+// The fields inherited from LocalizedMetadata are in the project's primary language
+export interface ImageMetadata extends LocalizedMetadata {
+  translations: Record<string, LocalizedMetadata>; // Other languages, keyed by locale code
+}
+
 export interface OptimizedImage {
   id: string;
   originalFile: File;
@@ -12,13 +23,291 @@ export interface OptimizedImage {
   compressedBlob: Blob | null;
   compressedSize: number;
   originalSize: number;
-  status: 'pending' | 'compressing' | 'analyzing' | 'done' | 'error';
+  status: 'pending' | 'compressing' | 'analyzing' | 'done' | 'error' | 'cancelled'; // 'pending' = waiting in the compression queue
   metadata: ImageMetadata;
   currentQuality: number;
+  outputFormat: OutputFormat; // Requested format; compressedBlob.type holds what was actually encoded
+  targetSize: number | null; // Byte budget; when set, quality is searched automatically
+  ssimFloor: number | null; // "Smart quality": when set, the lowest quality that keeps SSIM above it is searched
+  targetMet: boolean | null; // Whether the size budget or SSIM floor was met; null when neither is set
+  width: number;
+  height: number;
+  generateVariants: boolean; // Also encode the responsive srcset widths
+  variants: ImageVariant[];
+  exif: ExifData | null; // Tags read from the original file
+  exifPolicy: ExifPolicy; // Which of those tags are written back on export
+  aiError: AiError | null; // Why the last metadata generation failed
+  metadataEdited: boolean; // A person has changed the metadata by hand since it was last generated
+  qualityScore: QualityScore | null;
+  hasAlpha: boolean; // The original has transparent pixels
+  animated: boolean; // The original has more than one frame; only the first is encoded
+  matteColor: string; // Background for transparent pixels when the output format has no alpha channel
+  decodedFile: File | null; // PNG copy for inputs browsers or AI providers can't read (HEIC, SVG); null when the original works
+  svgMode: SvgMode | null; // null for anything but SVG
+  rasterWidth: number; // Width an SVG is rendered at in 'rasterize' mode
+  compressionError: string | null;
+  transform: ImageTransform | null; // Crop, rotation and flip applied before resizing; null = untouched
+  watermarkOptOut: boolean; // Skip the project's watermark for this image
+  profileId: string | null; // Profile the settings were last taken from; null = set by hand
+  maxWidth: number | null; // null = keep the original width
+  maxHeight: number | null; // null = no height limit
+  resizeMode: ResizeMode;
+  writeMetadata: boolean; // Embed title, caption and rights on export (when enabled in the settings)
+}
+
+// A resized copy of the image for use in srcset
+export interface ImageVariant {
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+// The user-adjustable settings that trigger a recompression
+export type CompressionSettings = Pick<OptimizedImage, 'currentQuality' | 'outputFormat' | 'targetSize' | 'ssimFloor' | 'generateVariants' | 'matteColor' | 'svgMode' | 'rasterWidth' | 'transform' | 'watermarkOptOut' | 'profileId' | 'maxWidth' | 'maxHeight' | 'resizeMode'>;
+
+// 'fit' scales down to fit inside the max width and height; 'cover' also crops the
+// centre to their aspect ratio so every output has the exact same shape
+export type ResizeMode = 'fit' | 'cover';
+
+// A named bundle of output settings, e.g. "Blog hero" or "Thumbnail"
+export interface CompressionProfile {
+  id: string;
+  name: string;
+  outputFormat: OutputFormat;
+  quality: number; // 0 to 1
+  maxWidth: number | null; // null = keep the original width
+  maxHeight: number | null; // null = no height limit
+  resizeMode: ResizeMode;
+  generateVariants: boolean;
+  exifPolicy: ExifPolicy | null; // null = the privacy settings' default
+  writeMetadata: boolean;
+}
+
+export interface ProfileSettings {
+  profiles: CompressionProfile[];
+  defaultId: string; // Profile new images start with
 }
 
 export interface CompressionConfig {
   quality: number; // 0 to 1
   maxWidth: number;
-  outputFormat: string;
-}
\ No newline at end of file
+  maxHeight?: number | null;
+  resizeMode?: ResizeMode; // Defaults to 'fit'
+  outputFormat: OutputFormat;
+  orientation?: number; // EXIF orientation (1-8) of the source, applied if the browser doesn't
+  matteColor?: string; // CSS colour drawn behind transparent pixels when the output format has no alpha channel
+  transform?: ImageTransform | null;
+  watermark?: WatermarkSettings | null;
+}
+
+export interface CropRect {
+  // Fractions (0 to 1) of the image after rotation and flipping
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageTransform {
+  rotation: 0 | 90 | 180 | 270; // Clockwise, on top of the EXIF orientation
+  flipH: boolean;
+  flipV: boolean;
+  crop: CropRect | null;
+  presetId: string | null; // Crop preset the box was drawn with, so its aspect ratio is kept when editing
+  outputWidth: number | null; // Width the preset requires (e.g. 1200 for Open Graph); overrides the usual max width
+}
+
+export interface ImageInfo {
+  hasAlpha: boolean;
+  animated: boolean;
+}
+
+
+export interface CompressionResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  quality: number;
+}
+
+// Rights and descriptive metadata written into exported files
+export interface EmbedSettings {
+  enabled: boolean;
+  creator: string;
+  copyright: string;
+}
+
+export type ExifIfd = 'image' | 'exif' | 'gps';
+
+export interface ExifEntry {
+  ifd: ExifIfd;
+  tag: number;
+  type: number; // TIFF field type
+  count: number;
+  value: number[] | Uint8Array; // Bytes for BYTE/ASCII/UNDEFINED, numbers otherwise (rationals as num/den pairs)
+}
+
+export interface ExifData {
+  entries: ExifEntry[];
+  orientation: number;
+  hasGps: boolean;
+}
+
+export type ExifPolicy = 'strip-all' | 'keep-copyright-camera' | 'keep-except-gps';
+
+export interface PrivacySettings {
+  exifPolicy: ExifPolicy; // Default for newly added images
+}
+
+// Work sent to the compression queue (and its Web Workers)
+export interface CompressionJob {
+  file: Blob;
+  config: CompressionConfig;
+  targetSize: number | null;
+  ssimFloor: number | null;
+  generateVariants: boolean;
+}
+
+export interface CompressionJobResult {
+  result: CompressionResult;
+  targetMet: boolean | null;
+  variants: ImageVariant[];
+  score: QualityScore | null; // null when the output couldn't be decoded for comparison
+}
+
+// How close the optimized image looks to the original
+export interface QualityScore {
+  ssim: number; // 0-1
+  psnr: number; // dB
+}
+
+export type CmsExportFormat = 'html' | 'markdown' | 'yaml' | 'wxr';
+
+export interface CmsExportSettings {
+  baseUrl: string; // URL or path the exported files will be served from, e.g. "https://example.com/images"
+  pageUrl: string; // Page the images appear on, for the image sitemap
+  licenseUrl: string; // Page describing the license, for the structured data
+}
+
+export interface QualitySettings {
+  minSsim: number; // Team minimum; 0 = no threshold
+  smartByDefault: boolean; // New images start in smart quality mode
+  smartFloor: number; // SSIM floor smart quality aims for
+}
+
+export type AiProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// Which AI backend generates metadata, and how to reach it
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string; // Empty = provider default
+  endpoint: string; // Empty = provider default
+}
+
+export interface ProviderConfig {
+  model: string;
+  endpoint: string;
+  apiKey?: string;
+  signal?: AbortSignal;
+}
+
+export interface MetadataProvider {
+  id: AiProviderId;
+  label: string;
+  defaultModel: string;
+  defaultEndpoint: string; // Empty when the provider has a fixed endpoint
+  apiKey: 'required' | 'optional' | 'none';
+  generate: (file: Blob, config: ProviderConfig, context: ProjectContext) => Promise<ImageMetadata>;
+  validateKey?: (config: ProviderConfig) => Promise<void>; // Cheap call that throws if the key is rejected
+}
+
+export type AiErrorKind = 'rate-limit' | 'invalid-key' | 'safety' | 'malformed' | 'network' | 'unknown';
+
+// A failed metadata generation, kept on the image so the card can explain it
+export interface AiError {
+  kind: AiErrorKind;
+  message: string;
+}
+
+// What the images are for; steers AI metadata toward the article and its keywords
+export interface ProjectContext {
+  articleTitle: string;
+  focusKeyphrase: string;
+  secondaryKeywords: string[];
+  tone: string;
+  brandName: string;
+  language: string; // Primary locale code, e.g. "en"
+  translationLocales: string[]; // Extra locales generated in the same request
+}
+
+// A named working queue, e.g. one per article, restored across reloads
+export interface Session {
+  id: string;
+  name: string;
+  updatedAt: number;
+  projectContext: ProjectContext;
+  watermark: WatermarkSettings;
+}
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'center' | 'bottom-left' | 'bottom-right';
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  type: 'text' | 'logo';
+  text: string;
+  color: string; // Text colour
+  logo: Blob | null; // Kept with the project in IndexedDB
+  position: WatermarkPosition;
+  opacity: number; // 0 to 1
+  scale: number; // Watermark width as a fraction of the image width
+  margin: number; // Gap to the image edges as a fraction of the image width
+}
+
+export type KeywordMatch = 'exact' | 'partial' | 'missing';
+
+export type LintLevel = 'off' | 'warning' | 'error';
+
+// The editorial style guide the SEO linter enforces
+export interface LintSettings {
+  levels: Record<string, LintLevel>; // Per rule id; rules not listed use their default level
+  titleMaxLength: number;
+  altMinLength: number;
+  altMaxLength: number;
+  slugMaxLength: number;
+  maxWordRepeats: number; // How often one word may appear in a single field
+  redundantAltPrefixes: string[];
+  slugStopWords: string[];
+}
+
+export interface LintIssue {
+  ruleId: string;
+  field: keyof LocalizedMetadata;
+  level: Exclude<LintLevel, 'off'>;
+  message: string;
+}
+
+export interface LintResult {
+  issues: LintIssue[];
+  score: number; // 0-100
+}
+
+// Limits for "Auto-Generate SEO for all"
+export interface BulkAiSettings {
+  concurrency: number;
+  requestsPerMinute: number; // 0 = unlimited
+}
+
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  paused: boolean;
+}
+
+export type KeyStorage = 'local' | 'session';
+
+// API keys entered by the user; never bundled into the build
+export interface ApiKeySettings {
+  storage: KeyStorage;
+  keys: Partial<Record<AiProviderId, string>>;
+}
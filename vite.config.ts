@@ -1,13 +1,8 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, (process as any).cwd(), '');
-  return {
-    plugins: [react()],
-    define: {
-      // This allows 'process.env.API_KEY' to work in the browser
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
-    }
-  };
-});
\ No newline at end of file
+// API keys are entered by each user in the Settings panel and kept in their browser;
+// nothing secret is inlined into the bundle.
+export default defineConfig({
+  plugins: [react()]
+});
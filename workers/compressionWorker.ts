@@ -0,0 +1,16 @@
+import { runCompressionJob } from '../services/compressionService.ts';
+import type { WorkerRequest, WorkerResponse } from '../services/compressionQueue.ts';
+
+/**
+ * Runs compression jobs off the main thread using createImageBitmap + OffscreenCanvas.
+ */
+self.addEventListener('message', async (e: MessageEvent<WorkerRequest>) => {
+  const { jobId, job } = e.data;
+  let response: WorkerResponse;
+  try {
+    response = { jobId, ok: true, value: await runCompressionJob(job) };
+  } catch (error) {
+    response = { jobId, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+});